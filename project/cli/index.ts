@@ -0,0 +1,247 @@
+import { parseArgs } from 'node:util';
+import { readFile, writeFile } from 'node:fs/promises';
+import {
+  batchResultsToCSV,
+  evaluateActiveModel,
+  exportModel,
+  formatPrice,
+  getModelMetadata,
+  importDatasetFromCSV,
+  importDatasetFromJSON,
+  importPropertiesFromCSV,
+  importPropertiesFromJSON,
+  importSerializedModel,
+  onTrainingProgress,
+  parseMarketIndexCSV,
+  parseMarketIndexJSON,
+  predictPrices,
+  setMarketIndex,
+  setMarketSettings,
+  setRandomSeed,
+  setTrainingDataset,
+  toMonthNumber,
+  trainCountryModel,
+  trainNewModel,
+  valueProperties
+} from '../src/lib';
+import type { EvaluationReport, ModelMetadata } from '../src/lib';
+import { readModelDirectory, writeModelDirectory } from './modelFiles';
+import { registerLocationFiles } from './locationFiles';
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  train      Train a model and write it to a directory
+               --data <listings.csv|json>  labelled listings (synthetic data when omitted)
+               --out <dir>                 output directory (default: model)
+               --seed <integer>            seed for a reproducible run (same data and seed, same model)
+               --country <name>            train the model for one country, on its listings only
+
+  predict    Value properties with a trained model
+               --model <dir|model.json>    trained model; repeat to add per-country models
+               --input <file.json|csv>     one property (JSON object) or many (JSON array or CSV)
+               --out <file.json|csv>       where to write results (default: JSON on stdout)
+               --as-of <YYYY-MM>           valuation date for the market index (default: this month)
+               --market-index <file>       market index CSV or JSON instead of the bundled one
+               --no-market                 skip market index adjustments
+
+  evaluate   Measure a trained model on labelled listings
+               --model <dir|model.json>    trained model
+               --data <listings.csv|json>  labelled listings (a synthetic sample when omitted)
+               --out <report.json>         where to write the report (default: stdout)
+
+Every command also takes --locations <file.json>, repeatable, to add countries beyond the bundled
+location table; listings in those countries are valued by a model of their own.
+`;
+
+const MAX_ERRORS_SHOWN = 10;
+
+const isJSONFile = (file: string) => file.toLowerCase().endsWith('.json');
+
+// Progress and problems go to stderr so stdout only carries results
+const log = (message: string) => {
+  process.stderr.write(`${message}\n`);
+};
+
+const requireOption = (value: string | undefined, name: string) => {
+  if (!value) throw new Error(`Missing --${name}\n\n${USAGE}`);
+  return value;
+};
+
+const writeOutput = async (text: string, out?: string) => {
+  if (out) {
+    await writeFile(out, text);
+    log(`Wrote ${out}`);
+  } else {
+    process.stdout.write(text);
+  }
+};
+
+// Read labelled listings, reporting rows that could not be imported
+const readDataset = async (file: string) => {
+  const text = await readFile(file, 'utf8');
+  const result = isJSONFile(file) ? importDatasetFromJSON(text) : importDatasetFromCSV(text);
+
+  result.errors.slice(0, MAX_ERRORS_SHOWN).forEach(error => {
+    log(error.row > 0 ? `Row ${error.row}: ${error.message}` : error.message);
+  });
+  if (result.errors.length > MAX_ERRORS_SHOWN) {
+    log(`and ${result.errors.length - MAX_ERRORS_SHOWN} more problems`);
+  }
+  if (result.examples.length === 0) {
+    throw new Error(`No valid listings found in ${file}`);
+  }
+
+  log(`Loaded ${result.examples.length} of ${result.totalRows} rows from ${file}`);
+  return result.examples;
+};
+
+const loadModel = async (location: string) => {
+  const metadata = await importSerializedModel(await readModelDirectory(location));
+  const scope = metadata.country ? ` for ${metadata.country}` : '';
+  log(`Loaded model${scope} trained ${metadata.trainedAt} on ${metadata.trainingSize} ${metadata.trainingSource} listings`);
+  return metadata;
+};
+
+// Load every --model given, returning the default model's metadata (or the first model's)
+const loadModels = async (locations: string[]) => {
+  const loaded: ModelMetadata[] = [];
+  for (const location of locations) {
+    loaded.push(await loadModel(location));
+  }
+  return loaded.find(metadata => !metadata.country) ?? loaded[0];
+};
+
+const summarize = (report: EvaluationReport | null | undefined, country?: string) => {
+  if (!report) return 'no held-out listings to evaluate';
+  const { count, mae, mape, r2 } = report.overall;
+  return `${count} listings, MAE ${formatPrice(mae, country)}, MAPE ${mape.toFixed(1)}%, R² ${r2 === null ? 'n/a' : r2.toFixed(3)}`;
+};
+
+type Options = ReturnType<typeof parseOptions>['values'];
+
+// Parse --seed; training is only reproducible when one is given
+const parseSeed = (value: string | undefined) => {
+  if (value === undefined) return null;
+  const seed = Number(value);
+  if (!Number.isInteger(seed)) throw new Error(`Invalid --seed "${value}"; use a whole number`);
+  return seed;
+};
+
+const train = async (options: Options) => {
+  setRandomSeed(parseSeed(options.seed));
+  if (options.data) {
+    setTrainingDataset(await readDataset(options.data));
+  } else {
+    log('No --data given; training on synthetic listings');
+  }
+
+  const unsubscribe = onTrainingProgress(({ epoch, totalEpochs, loss, valLoss }) => {
+    if (epoch % 10 === 0 || epoch === totalEpochs) {
+      log(`Epoch ${epoch}/${totalEpochs}: loss ${loss.toExponential(3)}${valLoss === undefined ? '' : `, validation ${valLoss.toExponential(3)}`}`);
+    }
+  });
+  try {
+    const metadata = options.country ? await trainCountryModel(options.country) : await trainNewModel();
+    log(`Held-out evaluation: ${summarize(metadata.evaluation, metadata.country)}`);
+  } finally {
+    unsubscribe();
+  }
+
+  const modelPath = await writeModelDirectory(options.out ?? 'model', await exportModel(options.country));
+  log(`Saved model to ${modelPath}`);
+};
+
+const predict = async (options: Options) => {
+  requireOption(options.model?.[0], 'model');
+  await loadModels(options.model ?? []);
+
+  if (options['market-index']) {
+    const text = await readFile(options['market-index'], 'utf8');
+    setMarketIndex(isJSONFile(options['market-index']) ? parseMarketIndexJSON(text) : parseMarketIndexCSV(text));
+  }
+  const asOf = options['as-of'];
+  if (asOf && Number.isNaN(toMonthNumber(asOf))) {
+    throw new Error(`Invalid --as-of "${asOf}"; use YYYY-MM`);
+  }
+  setMarketSettings({ enabled: !options['no-market'], valuationDate: asOf ?? null });
+
+  const input = requireOption(options.input, 'input');
+  const text = await readFile(input, 'utf8');
+  const imported = isJSONFile(input) ? importPropertiesFromJSON(text) : importPropertiesFromCSV(text);
+  if (imported.error) throw new Error(`${input}: ${imported.error}`);
+
+  const rows = await valueProperties(
+    imported.records,
+    predictPrices,
+    country => getModelMetadata(country)?.preprocessing
+  );
+  const failed = rows.filter(row => row.error);
+  failed.slice(0, MAX_ERRORS_SHOWN).forEach(row => log(`Row ${row.record.row}: ${row.error}`));
+  const flagged = rows.filter(row => !row.error && row.warnings.length > 0).length;
+  log(`Valued ${rows.length - failed.length} of ${rows.length} properties${flagged > 0 ? `, ${flagged} with warnings` : ''}`);
+
+  if (options.out && !isJSONFile(options.out)) {
+    await writeOutput(batchResultsToCSV(imported.headers, rows), options.out);
+    return;
+  }
+
+  const results = rows.map(({ record, result, error, warnings }) => ({
+    row: record.row,
+    features: record.features,
+    ...(result ? { result } : { error }),
+    ...(warnings.length > 0 && { warnings })
+  }));
+  const singleObject = isJSONFile(input) && !text.trim().startsWith('[');
+  await writeOutput(`${JSON.stringify(singleObject ? results[0] : results, null, 2)}\n`, options.out);
+};
+
+const evaluate = async (options: Options) => {
+  const metadata = await loadModel(requireOption(options.model?.[0], 'model'));
+  if (metadata.country) {
+    throw new Error(`evaluate measures the default model; ${metadata.country} models report their held-out evaluation when trained`);
+  }
+  const report = await evaluateActiveModel(options.data ? await readDataset(options.data) : undefined);
+  log(`Evaluation: ${summarize(report)}`);
+  await writeOutput(`${JSON.stringify(report, null, 2)}\n`, options.out);
+};
+
+const COMMANDS: Record<string, (options: Options) => Promise<void>> = { train, predict, evaluate };
+
+const parseOptions = (args: string[]) => parseArgs({
+  args,
+  allowPositionals: true,
+  options: {
+    data: { type: 'string' },
+    out: { type: 'string' },
+    model: { type: 'string', multiple: true },
+    locations: { type: 'string', multiple: true },
+    country: { type: 'string' },
+    input: { type: 'string' },
+    'as-of': { type: 'string' },
+    'market-index': { type: 'string' },
+    'no-market': { type: 'boolean' },
+    seed: { type: 'string' },
+    help: { type: 'boolean', short: 'h' }
+  }
+});
+
+const main = async () => {
+  const { values, positionals } = parseOptions(process.argv.slice(2));
+  const command = COMMANDS[positionals[0] ?? ''];
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    if (!values.help) process.exitCode = 1;
+    return;
+  }
+
+  const countries = await registerLocationFiles(values.locations ?? []);
+  if (countries.length > 0) log(`Added location tables for ${countries.join(', ')}`);
+  await command(values);
+};
+
+main().catch(error => {
+  log(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+});
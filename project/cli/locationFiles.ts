@@ -0,0 +1,17 @@
+import { readFile } from 'node:fs/promises';
+import { parseCountryConfig, registerCountry } from '../src/lib';
+
+// Add the country location tables in the given JSON files, returning the countries added
+export const registerLocationFiles = async (files: string[]) => {
+  const countries: string[] = [];
+  for (const file of files) {
+    try {
+      const config = parseCountryConfig(JSON.parse(await readFile(file, 'utf8')));
+      registerCountry(config);
+      countries.push(config.name);
+    } catch (error) {
+      throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return countries;
+};
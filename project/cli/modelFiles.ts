@@ -0,0 +1,35 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { SerializedModel } from '../src/lib';
+
+// Write the model.json and weights file produced by exportModel into a directory
+export const writeModelDirectory = async (directory: string, serialized: SerializedModel) => {
+  await mkdir(directory, { recursive: true });
+  await writeFile(path.join(directory, serialized.modelFileName), serialized.modelJSON);
+  await writeFile(path.join(directory, serialized.weightsFileName), new Uint8Array(serialized.weightData));
+  return path.join(directory, serialized.modelFileName);
+};
+
+// Read a model from its model.json (or the directory holding it) and the weight files it lists
+export const readModelDirectory = async (location: string): Promise<Pick<SerializedModel, 'modelJSON' | 'weightData'>> => {
+  let modelPath = location;
+  if ((await stat(location)).isDirectory()) {
+    const jsonFile = (await readdir(location)).find(name => name.toLowerCase().endsWith('.json'));
+    if (!jsonFile) {
+      throw new Error(`No model .json file found in ${location}`);
+    }
+    modelPath = path.join(location, jsonFile);
+  }
+
+  const modelJSON = await readFile(modelPath, 'utf8');
+  const manifest = (JSON.parse(modelJSON) as { weightsManifest?: { paths: string[] }[] }).weightsManifest ?? [];
+  const weightFiles = await Promise.all(
+    manifest.flatMap(group => group.paths).map(weightPath => readFile(path.resolve(path.dirname(modelPath), weightPath)))
+  );
+  const weights = Buffer.concat(weightFiles);
+
+  return {
+    modelJSON,
+    weightData: weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength)
+  };
+};
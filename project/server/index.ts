@@ -0,0 +1,89 @@
+import { createServer } from 'node:http';
+import { parseArgs } from 'node:util';
+import { getModelMetadata, importSerializedModel, setMarketSettings, setRandomSeed, toMonthNumber, trainNewModel } from '../src/lib';
+import { readModelDirectory } from '../cli/modelFiles';
+import { registerLocationFiles } from '../cli/locationFiles';
+import { handleRequest } from './routes';
+
+const USAGE = `Usage: npm run serve -- [options]
+
+Serves POST /predict, POST /predict/batch, GET /model and GET /health.
+
+Options:
+  --model <dir|model.json>  trained model (trains on synthetic listings when omitted); repeat to add
+                            per-country models
+  --locations <file.json>   location table for another country, repeatable; its listings are valued
+                            by its own model
+  --port <number>           port to listen on (default: 8080)
+  --host <address>          address to bind (default: 127.0.0.1)
+  --as-of <YYYY-MM>         valuation date for the market index (default: this month)
+  --no-market               skip market index adjustments
+  --seed <integer>          seed for the synthetic startup model, so restarts serve the same prices
+`;
+
+const log = (message: string) => {
+  process.stderr.write(`${message}\n`);
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      model: { type: 'string', multiple: true },
+      locations: { type: 'string', multiple: true },
+      port: { type: 'string', default: '8080' },
+      host: { type: 'string', default: '127.0.0.1' },
+      'as-of': { type: 'string' },
+      'no-market': { type: 'boolean' },
+      seed: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid --port "${values.port}"`);
+  }
+  // Market settings are process-wide, so the valuation date is fixed at startup rather than per request
+  const asOf = values['as-of'];
+  if (asOf && Number.isNaN(toMonthNumber(asOf))) {
+    throw new Error(`Invalid --as-of "${asOf}"; use YYYY-MM`);
+  }
+  setMarketSettings({ enabled: !values['no-market'], valuationDate: asOf ?? null });
+
+  const countries = await registerLocationFiles(values.locations ?? []);
+  if (countries.length > 0) log(`Added location tables for ${countries.join(', ')}`);
+
+  for (const location of values.model ?? []) {
+    const metadata = await importSerializedModel(await readModelDirectory(location));
+    const scope = metadata.country ? ` for ${metadata.country}` : '';
+    log(`Loaded model${scope} trained ${metadata.trainedAt} on ${metadata.trainingSize} ${metadata.trainingSource} listings`);
+  }
+  if (!getModelMetadata()) {
+    const seed = values.seed === undefined ? null : Number(values.seed);
+    if (seed !== null && !Number.isInteger(seed)) {
+      throw new Error(`Invalid --seed "${values.seed}"; use a whole number`);
+    }
+    setRandomSeed(seed);
+    log('No default --model given; training on synthetic listings');
+    await trainNewModel();
+    log(`Trained model at ${getModelMetadata()?.trainedAt}`);
+  }
+
+  const server = createServer((req, res) => {
+    void handleRequest(req, res);
+  });
+  server.listen(port, values.host, () => {
+    log(`Listening on http://${values.host}:${port}`);
+  });
+};
+
+main().catch(error => {
+  log(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+});
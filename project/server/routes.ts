@@ -0,0 +1,135 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  FEATURE_COLUMNS,
+  FEATURE_LABELS,
+  FEATURE_SCHEMA_VERSION,
+  HOUSE_FEATURES_JSON_SCHEMA,
+  canonicalizeLocation,
+  createDefaultFeatures,
+  getCountryModels,
+  getMarketIndexInfo,
+  getModelMetadata,
+  predictPrices,
+  validateHouseFeatures,
+  validateJsonSchema
+} from '../src/lib';
+import type { FieldIssue, HouseFeatures, ModelMetadata, PredictionResult, SchemaViolation } from '../src/lib';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+
+// Most properties accepted by one /predict/batch request
+const MAX_BATCH_SIZE = 1000;
+
+type ParsedFeatures =
+  | { features: HouseFeatures; warnings: SchemaViolation[]; violations?: never }
+  | { features?: never; warnings?: never; violations: SchemaViolation[] };
+
+// Check a request body against the JSON schema and the valuation rules, filling in defaults
+const parseFeatures = (body: unknown, path = ''): ParsedFeatures => {
+  const violations = validateJsonSchema(body, HOUSE_FEATURES_JSON_SCHEMA, path);
+  if (violations.length > 0) return { violations };
+
+  const request = body as Partial<HouseFeatures>;
+  const merged: HouseFeatures = { ...createDefaultFeatures(request.country), ...request };
+  const features = { ...merged, ...canonicalizeLocation(merged.city, merged.state, merged.country) };
+  const prefix = path ? `${path}.` : '';
+  const toViolation = ({ field, message }: FieldIssue) => ({ field: `${prefix}${field}`, message });
+  const { errors, warnings } = validateHouseFeatures(features, getModelMetadata(features.country)?.preprocessing);
+  if (errors.length > 0) {
+    return { violations: errors.map(toViolation) };
+  }
+  return { features, warnings: warnings.map(toViolation) };
+};
+
+const invalidRequest = (violations: SchemaViolation[]) => {
+  return new HttpError(422, 'validation_failed', 'The property failed validation', violations);
+};
+
+// POST /predict: value one property
+const predictOne = async (req: IncomingMessage) => {
+  const parsed = parseFeatures(await readJsonBody(req));
+  if (parsed.violations) throw invalidRequest(parsed.violations);
+
+  const [result] = await predictPrices([parsed.features]);
+  return { features: parsed.features, result, warnings: parsed.warnings };
+};
+
+// POST /predict/batch: value { properties: [...] } in one batched pass, reporting invalid items individually
+const predictBatch = async (req: IncomingMessage) => {
+  const body = await readJsonBody(req);
+  const violations = validateJsonSchema(body, {
+    type: 'object',
+    required: ['properties'],
+    properties: { properties: { type: 'array', minItems: 1, maxItems: MAX_BATCH_SIZE } }
+  });
+  if (violations.length > 0) throw invalidRequest(violations);
+
+  const items = (body as { properties: unknown[] }).properties.map((item, index) => ({
+    index,
+    ...parseFeatures(item, `properties[${index}]`)
+  }));
+  const valid = items.filter((item): item is typeof item & { features: HouseFeatures } => item.features !== undefined);
+  const predictions = await predictPrices(valid.map(item => item.features));
+  const results = new Map<number, PredictionResult>(valid.map((item, i) => [item.index, predictions[i]]));
+
+  return {
+    results: items.map(item => item.features
+      ? { index: item.index, features: item.features, result: results.get(item.index), warnings: item.warnings }
+      : { index: item.index, error: { code: 'validation_failed', message: 'The property failed validation', details: item.violations } })
+  };
+};
+
+const summarizeModel = (metadata: ModelMetadata) => ({
+  trainedAt: metadata.trainedAt,
+  trainingSource: metadata.trainingSource,
+  trainingSize: metadata.trainingSize,
+  evaluation: metadata.evaluation ?? null,
+  preprocessing: metadata.preprocessing
+});
+
+// GET /model: the active model's version and metrics, the per-country models, and the feature schema they expect
+const describeModel = () => {
+  const metadata = getModelMetadata();
+  return {
+    model: metadata && summarizeModel(metadata),
+    countryModels: getCountryModels().map(country => ({ country: country.country, ...summarizeModel(country) })),
+    featureSchema: {
+      version: FEATURE_SCHEMA_VERSION,
+      features: FEATURE_COLUMNS.map(({ feature, columns }) => ({ feature, label: FEATURE_LABELS[feature], width: columns.length })),
+      requestSchema: HOUSE_FEATURES_JSON_SCHEMA
+    },
+    market: getMarketIndexInfo()
+  };
+};
+
+const ROUTES: { [path: string]: { [method: string]: (req: IncomingMessage) => unknown } } = {
+  '/health': { GET: () => ({ status: 'ok', modelLoaded: getModelMetadata() !== null }) },
+  '/model': { GET: describeModel },
+  '/predict': { POST: predictOne },
+  '/predict/batch': { POST: predictBatch }
+};
+
+// Dispatch a request to its route and turn every failure into a structured JSON error
+export const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  try {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const route = ROUTES[pathname.replace(/\/+$/, '') || '/'];
+    if (!route) {
+      throw new HttpError(404, 'not_found', `No route for ${pathname}`);
+    }
+
+    const handler = route[req.method ?? 'GET'];
+    if (!handler) {
+      res.setHeader('Allow', Object.keys(route).join(', '));
+      throw new HttpError(405, 'method_not_allowed', `${req.method} is not supported on ${pathname}`);
+    }
+
+    sendJson(res, 200, await handler(req));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendError(res, error);
+    } else {
+      console.error(error);
+      sendError(res, new HttpError(500, 'internal_error', 'The valuation could not be completed'));
+    }
+  }
+};
@@ -1,61 +1,230 @@
-import React, { useState } from 'react';
-import { Home, DollarSign, BarChart2, AlertCircle, MapPin, Building2, Map, Brain } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Home, AlertCircle, BarChart2, Layers, History, MapPin, Building2, Map, Brain, CalendarDays, Link2, FileText, SlidersHorizontal, LineChart } from 'lucide-react';
 import { Toaster, toast } from 'react-hot-toast';
-import type { HouseFeatures, PredictionResult } from './types';
-import { predictPrice, calculateConfidence, formatIndianPrice } from './utils/prediction';
+import type {
+  AreaUnit,
+  HouseFeatures,
+  PredictionResult,
+  ModelMetadata,
+  PriceExplanation,
+  ComparablesResult,
+  MarketSettings,
+  SavedValuation
+} from './types';
+import { predictPrice } from './utils/prediction';
+import { formatPrice } from './utils/priceFormat';
+import { AREA_UNITS, AREA_UNIT_LABELS, convertArea, getAreaUnit } from './utils/areaUnits';
+import { getModelMetadata, explainPrediction, findComparables, setMarketSettings, predictRent } from './utils/modelClient';
+import { currentMonth } from './utils/marketIndex';
+import { saveValuation } from './utils/history';
+import { createShareLink, parseShareLink } from './utils/shareLink';
+import { openValuationReport } from './utils/report';
+import { createDefaultFeatures } from './utils/featureSchema';
+import { TrainingCancelledError } from './utils/errors';
+import { EARLIEST_YEAR_BUILT, getLatestYearBuilt, validateHouseFeatures } from './utils/validation';
+import { isLowReliability } from './utils/novelty';
+import {
+  getCountryNames,
+  getCountrySettings,
+  getModelCountry,
+  getStateNames,
+  DEFAULT_COUNTRY,
+  getCityNames,
+  findCity,
+  canonicalizeLocation
+} from './utils/locations';
+import DatasetImport from './components/DatasetImport';
+import ModelManager from './components/ModelManager';
+import TrainingProgressBar from './components/TrainingProgressBar';
+import ModelQuality from './components/ModelQuality';
+import BatchValuation from './components/BatchValuation';
+import PriceWaterfall from './components/PriceWaterfall';
+import ComparablesPanel from './components/ComparablesPanel';
+import MarketIndexPanel from './components/MarketIndexPanel';
+import ValuationHistory from './components/ValuationHistory';
+import SensitivityExplorer from './components/SensitivityExplorer';
+import FieldIssues from './components/FieldIssues';
+import TrainingConsole from './components/TrainingConsole';
+import RentalYieldPanel from './components/RentalYieldPanel';
+import CountryModels from './components/CountryModels';
+import AffordabilityPanel from './components/AffordabilityPanel';
+import ReliabilityBanner from './components/ReliabilityBanner';
+import InsightsDashboard from './components/InsightsDashboard';
+
+type View = 'valuation' | 'batch' | 'history' | 'insights' | 'training' | 'quality';
+
+const VIEWS: { id: View; label: string; icon: typeof Home }[] = [
+  { id: 'valuation', label: 'Valuation', icon: Home },
+  { id: 'batch', label: 'Batch', icon: Layers },
+  { id: 'history', label: 'History', icon: History },
+  { id: 'insights', label: 'Insights', icon: LineChart },
+  { id: 'training', label: 'Training', icon: SlidersHorizontal },
+  { id: 'quality', label: 'Model Quality', icon: BarChart2 }
+];
+
+type AmenityField = 'hasGarage' | 'hasPool' | 'hasLift' | 'hasPowerBackup' | 'isGatedSociety' | 'isReraRegistered';
+
+const AMENITIES: { name: AmenityField; label: string }[] = [
+  { name: 'hasGarage', label: 'Parking/Garage Available' },
+  { name: 'hasPool', label: 'Swimming Pool' },
+  { name: 'hasLift', label: 'Lift' },
+  { name: 'hasPowerBackup', label: 'Power Backup' },
+  { name: 'isGatedSociety', label: 'Gated Society' },
+  { name: 'isReraRegistered', label: 'RERA Registered' }
+];
 
 function App() {
-  const [features, setFeatures] = useState<HouseFeatures>({
-    size: 0,
-    bedrooms: 0,
-    bathrooms: 0,
-    location: 'suburban',
-    city: '',
-    state: '',
-    country: 'India',
-    yearBuilt: new Date().getFullYear(),
-    hasGarage: false,
-    hasPool: false
-  });
+  // A shared link pre-fills the form and is valued as soon as the page opens
+  const [sharedLink] = useState(() => parseShareLink(window.location.search, { enabled: true, valuationDate: currentMonth() }));
+  const [features, setFeatures] = useState<HouseFeatures>(() => sharedLink?.features ?? createDefaultFeatures());
 
   const [prediction, setPrediction] = useState<PredictionResult | null>(null);
+  const [rent, setRent] = useState<PredictionResult | null>(null);
+  const [isRentLoading, setIsRentLoading] = useState(false);
+  const [rentError, setRentError] = useState<string | null>(null);
+  const rentRequest = useRef(0);
+  const [valuedFeatures, setValuedFeatures] = useState<HouseFeatures | null>(null);
+  const [explanation, setExplanation] = useState<PriceExplanation | null>(null);
+  const [comparables, setComparables] = useState<ComparablesResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [modelMetadata, setModelMetadata] = useState<ModelMetadata | null>(null);
+  // The model that values listings in the form's country, whose training ranges the form is
+  // checked against, and the model that produced the valuation on show
+  const [countryMetadata, setCountryMetadata] = useState<ModelMetadata | null>(null);
+  const [valuedMetadata, setValuedMetadata] = useState<ModelMetadata | null>(null);
+  const [view, setView] = useState<View>('valuation');
+  const [market, setMarket] = useState<MarketSettings>(() => sharedLink?.market ?? { enabled: true, valuationDate: currentMonth() });
+  const [showErrors, setShowErrors] = useState(false);
+  const [countries, setCountries] = useState(getCountryNames);
+  const validation = useMemo(() => validateHouseFeatures(features, countryMetadata?.preprocessing), [features, countryMetadata]);
+  // Prices on show are in the currency of the property that was valued
+  const valuedCountry = valuedFeatures?.country ?? features.country;
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleModelChange = useCallback((metadata: ModelMetadata | null) => {
+    setModelMetadata(metadata);
+  }, []);
 
-    if (features.size <= 0) {
-      toast.error('Please enter a valid house size');
-      return;
-    }
+  // Look the model up again when the country changes or a model is trained or imported
+  useEffect(() => {
+    getModelMetadata(features.country)
+      .then(setCountryMetadata)
+      .catch(() => setCountryMetadata(null));
+  }, [features.country, modelMetadata]);
 
-    if (features.bedrooms <= 0) {
-      toast.error('Please enter a valid number of bedrooms');
+  // Estimate the monthly rent once the price is in, so a slow or failing rent model never holds
+  // up the valuation. Only the latest request may update the panel.
+  const estimateRent = useCallback(async (features: HouseFeatures) => {
+    const request = ++rentRequest.current;
+    setRent(null);
+    // The rent model only covers the default country
+    if (getModelCountry(features.country) !== null) {
+      setRentError(`Rent estimates are only available for properties in ${DEFAULT_COUNTRY}`);
       return;
     }
 
-    if (features.bathrooms <= 0) {
-      toast.error('Please enter a valid number of bathrooms');
-      return;
+    setRentError(null);
+    setIsRentLoading(true);
+    try {
+      const estimate = await predictRent(features);
+      if (request === rentRequest.current) setRent(estimate);
+    } catch (error) {
+      if (request === rentRequest.current) {
+        setRentError(error instanceof TrainingCancelledError ? 'Rent model training was cancelled' : 'Could not estimate the rent');
+      }
+    } finally {
+      if (request === rentRequest.current) setIsRentLoading(false);
     }
+  }, []);
 
-    if (!features.city || !features.state) {
-      toast.error('Please enter both city and state');
+  // Value a property as of the given market settings and save it to the history
+  const runValuation = useCallback(async (features: HouseFeatures, settings: MarketSettings) => {
+    const { errors } = validateHouseFeatures(features);
+    if (errors.length > 0) {
+      setShowErrors(true);
+      toast.error(errors[0].message);
       return;
     }
 
     setIsLoading(true);
     try {
-      const predictedPrice = await predictPrice(features);
-      const confidence = calculateConfidence(features);
-
-      setPrediction({ price: predictedPrice, confidence });
+      await setMarketSettings(settings);
+      const result = await predictPrice(features);
+      setPrediction(result);
+      setRent(null);
+      setRentError(null);
+      setValuedFeatures(features);
+      setExplanation(await explainPrediction(features));
+      setComparables(await findComparables(features));
+      estimateRent(features);
+      const metadata = await getModelMetadata(features.country);
+      setValuedMetadata(metadata);
+      setModelMetadata(await getModelMetadata());
+      window.history.replaceState(null, '', createShareLink({ features, market: settings }));
       toast.success('AI prediction completed successfully!');
+
+      saveValuation(features, result, settings, metadata)
+        .catch(() => toast.error('Could not save this valuation to the history'));
     } catch (error) {
-      toast.error('Error calculating prediction. Please try again.');
+      if (error instanceof TrainingCancelledError) {
+        toast('Model training cancelled');
+      } else {
+        toast.error('Error calculating prediction. Please try again.');
+      }
     } finally {
       setIsLoading(false);
     }
+  }, [estimateRent]);
+
+  // Value the shared listing once, even when effects run twice in development
+  const sharedLinkValued = useRef(false);
+  useEffect(() => {
+    if (!sharedLink || sharedLinkValued.current) return;
+    sharedLinkValued.current = true;
+    runValuation(sharedLink.features, sharedLink.market);
+  }, [sharedLink, runValuation]);
+
+  const handleCopyLink = async () => {
+    if (!valuedFeatures) return;
+    try {
+      await navigator.clipboard.writeText(createShareLink({ features: valuedFeatures, market }));
+      toast.success('Link copied to the clipboard');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const handleExportReport = () => {
+    if (!prediction || !valuedFeatures) return;
+    const opened = openValuationReport({
+      features: valuedFeatures,
+      prediction,
+      explanation,
+      market,
+      metadata: valuedMetadata,
+      link: createShareLink({ features: valuedFeatures, market }),
+      generatedAt: new Date()
+    });
+    if (!opened) toast.error('Allow pop-ups to open the report');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runValuation(features, market);
+  };
+
+  // A new "as of" date or index toggle re-values the property already shown
+  const handleMarketChange = (changes: Partial<MarketSettings>) => {
+    const settings = { ...market, ...changes };
+    setMarket(settings);
+    if (prediction) runValuation(features, settings);
+  };
+
+  // Load a saved valuation back into the form and value it with the current model
+  const handleRerun = (entry: SavedValuation) => {
+    setFeatures(entry.features);
+    setMarket(entry.market);
+    setView('valuation');
+    runValuation(entry.features, entry.market);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -71,6 +240,38 @@ function App() {
     }));
   };
 
+  // Both areas in another unit, so the property keeps its size
+  const withAreaUnit = (prev: HouseFeatures, areaUnit: AreaUnit): HouseFeatures => {
+    const from = getAreaUnit(prev);
+    const convert = (value: number) => value && Math.round(convertArea(value, from, areaUnit));
+    return { ...prev, size: convert(prev.size), carpetArea: convert(prev.carpetArea), areaUnit };
+  };
+
+  const handleAreaUnitChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const areaUnit = e.target.value as AreaUnit;
+    setFeatures(prev => withAreaUnit(prev, areaUnit));
+  };
+
+  // Changing country clears the state and city and switches to the unit areas are quoted in there
+  const handleCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const country = e.target.value;
+    setFeatures(prev => ({ ...withAreaUnit(prev, getCountrySettings(country).areaUnit), country, state: '', city: '' }));
+  };
+
+  // Changing state clears a known city that belongs to another state
+  const handleStateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const state = e.target.value;
+    setFeatures(prev => {
+      const belongsElsewhere = findCity(prev.city, '', prev.country) && !findCity(prev.city, state, prev.country);
+      return { ...prev, state, city: belongsElsewhere ? '' : prev.city };
+    });
+  };
+
+  // Replace aliases such as "Bombay" with the registry's canonical city name
+  const handleCityBlur = () => {
+    setFeatures(prev => ({ ...prev, ...canonicalizeLocation(prev.city, prev.state, prev.country) }));
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-blue-50 to-purple-50 py-8 px-4">
       <div className="max-w-5xl mx-auto">
@@ -89,230 +290,503 @@ function App() {
             </div>
           </div>
 
-          <div className="p-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
-            {/* Input Form */}
-            <div className="space-y-6">
-              <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
-                <Home size={24} className="text-indigo-600" />
-                Property Details
-              </h2>
-              
-              <form onSubmit={handleSubmit} className="space-y-6">
-                <div className="bg-indigo-50 p-6 rounded-xl space-y-4">
-                  <h3 className="text-lg font-medium text-indigo-900 flex items-center gap-2">
-                    <MapPin size={20} className="text-indigo-600" />
-                    Location Information
-                  </h3>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Navigation */}
+          <nav className="px-8 pt-6 flex gap-2 border-b border-gray-100">
+            {VIEWS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setView(id)}
+                className={`flex items-center gap-2 px-4 py-2 -mb-px text-sm font-medium border-b-2 transition-colors ${view === id ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+              >
+                <Icon size={16} />
+                {label}
+              </button>
+            ))}
+          </nav>
+
+          <div className={view === 'valuation' ? '' : 'hidden'}>
+            <div className="p-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* Input Form */}
+              <div className="space-y-6">
+                <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+                  <Home size={24} className="text-indigo-600" />
+                  Property Details
+                </h2>
+                
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <div className="bg-indigo-50 p-6 rounded-xl space-y-4">
+                    <h3 className="text-lg font-medium text-indigo-900 flex items-center gap-2">
+                      <MapPin size={20} className="text-indigo-600" />
+                      Location Information
+                    </h3>
+                    
                     <div>
-                      <label className="block text-sm font-medium text-gray-700">City</label>
-                      <input
-                        type="text"
-                        name="city"
-                        value={features.city}
-                        onChange={handleInputChange}
-                        placeholder="e.g., Mumbai"
+                      <label className="block text-sm font-medium text-gray-700">Country</label>
+                      <select
+                        name="country"
+                        value={features.country}
+                        onChange={handleCountryChange}
                         className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                      />
+                      >
+                        {!countries.includes(features.country) && <option value={features.country}>{features.country}</option>}
+                        {countries.map(country => (
+                          <option key={country} value={country}>{country}</option>
+                        ))}
+                      </select>
                     </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">State</label>
+                        <select
+                          name="state"
+                          value={features.state}
+                          onChange={handleStateChange}
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        >
+                          <option value="">Select a state</option>
+                          {getStateNames(features.country).map(state => (
+                            <option key={state} value={state}>{state}</option>
+                          ))}
+                        </select>
+                        <FieldIssues validation={validation} field="state" showErrors={showErrors} />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">City</label>
+                        <input
+                          type="text"
+                          name="city"
+                          list="city-options"
+                          value={features.city}
+                          onChange={handleInputChange}
+                          onBlur={handleCityBlur}
+                          placeholder="e.g., Mumbai"
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        />
+                        <datalist id="city-options">
+                          {getCityNames(features.state, features.country).map(city => (
+                            <option key={city} value={city} />
+                          ))}
+                        </datalist>
+                        <FieldIssues validation={validation} field="city" showErrors={showErrors} />
+                      </div>
+                    </div>
+
                     <div>
-                      <label className="block text-sm font-medium text-gray-700">State</label>
-                      <input
-                        type="text"
-                        name="state"
-                        value={features.state}
+                      <label className="block text-sm font-medium text-gray-700">Area Type</label>
+                      <select
+                        name="location"
+                        value={features.location}
                         onChange={handleInputChange}
-                        placeholder="e.g., Maharashtra"
                         className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                      />
+                      >
+                        <option value="urban">Urban</option>
+                        <option value="suburban">Suburban</option>
+                        <option value="rural">Rural</option>
+                      </select>
+                      <FieldIssues validation={validation} field="location" showErrors={showErrors} />
                     </div>
                   </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">Area Type</label>
-                    <select
-                      name="location"
-                      value={features.location}
-                      onChange={handleInputChange}
-                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-                    >
-                      <option value="urban">Urban</option>
-                      <option value="suburban">Suburban</option>
-                      <option value="rural">Rural</option>
-                    </select>
-                  </div>
-                </div>
-
-                <div className="bg-blue-50 p-6 rounded-xl space-y-4">
-                  <h3 className="text-lg font-medium text-blue-900 flex items-center gap-2">
-                    <Map size={20} className="text-blue-600" />
-                    Property Specifications
-                  </h3>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Size (sq ft)
-                    </label>
-                    <input
-                      type="number"
-                      name="size"
-                      value={features.size || ''}
-                      onChange={handleInputChange}
-                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                      min="0"
-                    />
-                  </div>
+                  <div className="bg-blue-50 p-6 rounded-xl space-y-4">
+                    <h3 className="text-lg font-medium text-blue-900 flex items-center gap-2">
+                      <Map size={20} className="text-blue-600" />
+                      Property Specifications
+                    </h3>
 
-                  <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-gray-700">
-                        Bedrooms
+                        Property Type
                       </label>
-                      <input
-                        type="number"
-                        name="bedrooms"
-                        value={features.bedrooms || ''}
+                      <select
+                        name="propertyType"
+                        value={features.propertyType}
                         onChange={handleInputChange}
                         className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                        min="0"
-                      />
+                      >
+                        <option value="apartment">Apartment</option>
+                        <option value="independent-house">Independent House</option>
+                        <option value="villa">Villa</option>
+                      </select>
+                      <FieldIssues validation={validation} field="propertyType" showErrors={showErrors} />
                     </div>
 
                     <div>
                       <label className="block text-sm font-medium text-gray-700">
-                        Bathrooms
+                        Area Unit
+                      </label>
+                      <select
+                        name="areaUnit"
+                        value={getAreaUnit(features)}
+                        onChange={handleAreaUnitChange}
+                        className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        {AREA_UNITS.map(unit => (
+                          <option key={unit} value={unit}>{AREA_UNIT_LABELS[unit]}</option>
+                        ))}
+                      </select>
+                      <FieldIssues validation={validation} field="areaUnit" showErrors={showErrors} />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Super Built-up Area ({AREA_UNIT_LABELS[getAreaUnit(features)]})
+                        </label>
+                        <input
+                          type="number"
+                          name="size"
+                          value={features.size || ''}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          min="0"
+                        />
+                        <FieldIssues validation={validation} field="size" showErrors={showErrors} />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Carpet Area ({AREA_UNIT_LABELS[getAreaUnit(features)]})
+                        </label>
+                        <input
+                          type="number"
+                          name="carpetArea"
+                          value={features.carpetArea || ''}
+                          onChange={handleInputChange}
+                          placeholder="Optional"
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          min="0"
+                        />
+                        <FieldIssues validation={validation} field="carpetArea" showErrors={showErrors} />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Bedrooms
+                        </label>
+                        <input
+                          type="number"
+                          name="bedrooms"
+                          value={features.bedrooms || ''}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          min="0"
+                        />
+                        <FieldIssues validation={validation} field="bedrooms" showErrors={showErrors} />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Bathrooms
+                        </label>
+                        <input
+                          type="number"
+                          name="bathrooms"
+                          value={features.bathrooms || ''}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          min="0"
+                        />
+                        <FieldIssues validation={validation} field="bathrooms" showErrors={showErrors} />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Year Built
                       </label>
                       <input
                         type="number"
-                        name="bathrooms"
-                        value={features.bathrooms || ''}
+                        name="yearBuilt"
+                        value={features.yearBuilt || ''}
                         onChange={handleInputChange}
                         className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                        min="0"
+                        min={EARLIEST_YEAR_BUILT}
+                        max={getLatestYearBuilt()}
                       />
+                      <FieldIssues validation={validation} field="yearBuilt" showErrors={showErrors} />
                     </div>
-                  </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700">
-                      Year Built
-                    </label>
-                    <input
-                      type="number"
-                      name="yearBuilt"
-                      value={features.yearBuilt || ''}
-                      onChange={handleInputChange}
-                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                      min="1800"
-                      max={new Date().getFullYear()}
-                    />
-                  </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Floor
+                        </label>
+                        <input
+                          type="number"
+                          name="floor"
+                          value={features.floor}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          min="0"
+                        />
+                        <FieldIssues validation={validation} field="floor" showErrors={showErrors} />
+                      </div>
 
-                  <div className="space-y-3">
-                    <div className="flex items-center">
-                      <input
-                        type="checkbox"
-                        name="hasGarage"
-                        checked={features.hasGarage}
-                        onChange={handleInputChange}
-                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
-                      <label className="ml-2 block text-sm text-gray-700">
-                        Parking/Garage Available
-                      </label>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Total Floors
+                        </label>
+                        <input
+                          type="number"
+                          name="totalFloors"
+                          value={features.totalFloors || ''}
+                          onChange={handleInputChange}
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          min="1"
+                        />
+                        <FieldIssues validation={validation} field="totalFloors" showErrors={showErrors} />
+                      </div>
                     </div>
 
-                    <div className="flex items-center">
-                      <input
-                        type="checkbox"
-                        name="hasPool"
-                        checked={features.hasPool}
-                        onChange={handleInputChange}
-                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-                      />
-                      <label className="ml-2 block text-sm text-gray-700">
-                        Swimming Pool
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">
+                        Furnishing
                       </label>
+                      <select
+                        name="furnishing"
+                        value={features.furnishing}
+                        onChange={handleInputChange}
+                        className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        <option value="unfurnished">Unfurnished</option>
+                        <option value="semi-furnished">Semi-furnished</option>
+                        <option value="furnished">Furnished</option>
+                      </select>
+                      <FieldIssues validation={validation} field="furnishing" showErrors={showErrors} />
                     </div>
-                  </div>
-                </div>
-
-                <button
-                  type="submit"
-                  disabled={isLoading}
-                  className={`w-full flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all duration-300 ${isLoading ? 'opacity-75 cursor-not-allowed' : ''}`}
-                >
-                  {isLoading ? (
-                    <>
-                      <Brain className="animate-pulse mr-2" size={20} />
-                      AI Processing...
-                    </>
-                  ) : (
-                    <>
-                      <Brain size={20} className="mr-2" />
-                      Calculate with AI
-                    </>
-                  )}
-                </button>
-              </form>
-            </div>
 
-            {/* Results */}
-            <div className="bg-gradient-to-b from-gray-50 to-white p-6 rounded-xl shadow-inner">
-              <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2 mb-6">
-                <Brain size={24} className="text-indigo-600" />
-                AI Valuation Results
-              </h2>
-
-              {prediction ? (
-                <div className="space-y-6">
-                  <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
-                    <h3 className="text-sm font-medium text-gray-500">AI-Predicted Price</h3>
-                    <p className="text-4xl font-bold text-indigo-600 mt-2">
-                      {formatIndianPrice(prediction.price)}
-                    </p>
-                    <p className="text-sm text-gray-500 mt-2">
-                      Based on advanced machine learning analysis
-                    </p>
+                    <div className="grid grid-cols-2 gap-3">
+                      {AMENITIES.map(({ name, label }) => (
+                        <div key={name} className="flex items-center">
+                          <input
+                            type="checkbox"
+                            id={name}
+                            name={name}
+                            checked={features[name]}
+                            onChange={handleInputChange}
+                            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                          />
+                          <label htmlFor={name} className="ml-2 block text-sm text-gray-700">
+                            {label}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
                   </div>
 
-                  <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
-                    <h3 className="text-sm font-medium text-gray-500">AI Confidence Level</h3>
-                    <div className="mt-4">
-                      <div className="h-3 bg-gray-200 rounded-full overflow-hidden">
-                        <div 
-                          className="h-full bg-gradient-to-r from-indigo-600 to-blue-600 rounded-full transition-all duration-500"
-                          style={{ width: `${prediction.confidence}%` }}
+                  <div className="bg-emerald-50 p-6 rounded-xl space-y-4">
+                    <h3 className="text-lg font-medium text-emerald-900 flex items-center gap-2">
+                      <CalendarDays size={20} className="text-emerald-600" />
+                      Valuation Date
+                    </h3>
+                    <div className="grid grid-cols-2 gap-4 items-end">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">
+                          Value as of
+                        </label>
+                        <input
+                          type="month"
+                          value={market.valuationDate ?? ''}
+                          onChange={e => e.target.value && handleMarketChange({ valuationDate: e.target.value })}
+                          disabled={!market.enabled}
+                          className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:opacity-50"
                         />
                       </div>
-                      <p className="mt-2 text-sm font-medium text-gray-600">
-                        {prediction.confidence}% prediction accuracy
-                      </p>
+                      <div className="flex items-center pb-2">
+                        <input
+                          type="checkbox"
+                          id="marketEnabled"
+                          checked={market.enabled}
+                          onChange={e => handleMarketChange({ enabled: e.target.checked })}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <label htmlFor="marketEnabled" className="ml-2 block text-sm text-gray-700">
+                          Adjust to market index
+                        </label>
+                      </div>
                     </div>
                   </div>
 
-                  <div className="bg-indigo-50 p-6 rounded-xl flex items-start gap-3">
-                    <AlertCircle className="text-indigo-600 shrink-0" size={24} />
-                    <div className="space-y-2">
-                      <p className="text-sm text-indigo-900">
-                        This AI prediction is based on machine learning analysis of market data, location trends, and property characteristics in {features.city}, {features.state}.
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className={`w-full flex items-center justify-center px-6 py-3 border border-transparent rounded-lg shadow-sm text-base font-medium text-white bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all duration-300 ${isLoading ? 'opacity-75 cursor-not-allowed' : ''}`}
+                  >
+                    {isLoading ? (
+                      <>
+                        <Brain className="animate-pulse mr-2" size={20} />
+                        AI Processing...
+                      </>
+                    ) : (
+                      <>
+                        <Brain size={20} className="mr-2" />
+                        Calculate with AI
+                      </>
+                    )}
+                  </button>
+
+                  {isLoading && <TrainingProgressBar />}
+                </form>
+              </div>
+
+              {/* Results */}
+              <div className="bg-gradient-to-b from-gray-50 to-white p-6 rounded-xl shadow-inner">
+                <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2 mb-6">
+                  <Brain size={24} className="text-indigo-600" />
+                  AI Valuation Results
+                </h2>
+
+                {prediction ? (
+                  <div className="space-y-6">
+                    <ReliabilityBanner novelty={prediction.novelty} />
+
+                    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
+                      <div className="flex items-center justify-between gap-2">
+                        <h3 className="text-sm font-medium text-gray-500">AI-Predicted Price</h3>
+                        <div className="flex items-center gap-1">
+                          <button
+                            type="button"
+                            onClick={handleCopyLink}
+                            title="Copy a link that opens this valuation"
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100"
+                          >
+                            <Link2 size={14} />
+                            Copy link
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleExportReport}
+                            title="Open a printable report"
+                            className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100"
+                          >
+                            <FileText size={14} />
+                            Export report
+                          </button>
+                        </div>
+                      </div>
+                      <p className="text-4xl font-bold text-indigo-600 mt-2">
+                        {formatPrice(prediction.price, valuedCountry)}
+                      </p>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Likely range: <span className="font-medium">{formatPrice(prediction.low, valuedCountry)}</span> – <span className="font-medium">{formatPrice(prediction.high, valuedCountry)}</span>
                       </p>
-                      <p className="text-sm text-indigo-700">
-                        Our model considers multiple factors including seasonal trends, market dynamics, and location-specific patterns.
+                      <p className="text-xs text-gray-500 mt-1">
+                        80% of the model's sampled predictions fall within this range
                       </p>
+                      {prediction.adjustments.length > 0 && (
+                        <ul className="mt-4 pt-4 border-t border-gray-100 space-y-1 text-xs text-gray-600">
+                          {prediction.adjustments.map(adjustment => (
+                            <li key={adjustment.label} className="flex justify-between gap-4">
+                              <span>
+                                {adjustment.label}
+                                {adjustment.detail && <span className="text-gray-400"> ({adjustment.detail})</span>}
+                              </span>
+                              <span className="font-medium">×{adjustment.multiplier.toFixed(3)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    <AffordabilityPanel price={prediction.price} country={valuedCountry} />
+
+                    <RentalYieldPanel
+                      price={prediction.price}
+                      rent={rent}
+                      isLoading={isRentLoading}
+                      error={rentError}
+                    />
+
+                    {explanation && <PriceWaterfall explanation={explanation} country={valuedCountry} />}
+
+                    {comparables && <ComparablesPanel comparables={comparables} modelPrice={prediction.price} country={valuedCountry} />}
+
+                    {valuedFeatures && <SensitivityExplorer key={JSON.stringify(valuedFeatures)} features={valuedFeatures} />}
+
+                    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
+                      <h3 className="text-sm font-medium text-gray-500">AI Confidence Level</h3>
+                      <div className="mt-4">
+                        <div className="h-3 bg-gray-200 rounded-full overflow-hidden">
+                          <div 
+                            className="h-full bg-gradient-to-r from-indigo-600 to-blue-600 rounded-full transition-all duration-500"
+                            style={{ width: `${prediction.confidence}%` }}
+                          />
+                        </div>
+                        <p className="mt-2 text-sm font-medium text-gray-600">
+                          {prediction.confidence}% confidence
+                        </p>
+                        <p className="mt-1 text-xs text-gray-500">
+                          Derived from how much the model's predictions vary under Monte-Carlo dropout. A narrower range gives a higher score,
+                          lowered for properties unlike the training listings.
+                        </p>
+                        {prediction.novelty && prediction.novelty.reasons.length > 0 && !isLowReliability(prediction.novelty) && (
+                          <ul className="mt-2 text-xs text-amber-700 space-y-0.5">
+                            {prediction.novelty.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                          </ul>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="bg-indigo-50 p-6 rounded-xl flex items-start gap-3">
+                      <AlertCircle className="text-indigo-600 shrink-0" size={24} />
+                      <div className="space-y-2">
+                        <p className="text-sm text-indigo-900">
+                          This AI prediction is based on machine learning analysis of market data, location trends, and property characteristics in {features.city}, {features.state}.
+                        </p>
+                        <p className="text-sm text-indigo-700">
+                          The breakdown above shows how each property detail and market adjustment moved the price.
+                        </p>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ) : (
-                <div className="text-center text-gray-500 py-12">
-                  <Brain size={64} className="mx-auto mb-6 opacity-50" />
-                  <p className="text-lg">Enter property details for AI analysis</p>
-                  <p className="text-sm text-gray-400 mt-2">Our advanced machine learning model will process the information and provide a detailed prediction</p>
-                </div>
-              )}
+                ) : (
+                  <div className="text-center text-gray-500 py-12">
+                    <Brain size={64} className="mx-auto mb-6 opacity-50" />
+                    <p className="text-lg">Enter property details for AI analysis</p>
+                    <p className="text-sm text-gray-400 mt-2">Our advanced machine learning model will process the information and provide a detailed prediction</p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="px-8 pb-8 space-y-6">
+              <DatasetImport onDatasetChange={() => setModelMetadata(null)} />
+              <DatasetImport target="rent" onDatasetChange={() => valuedFeatures && estimateRent(valuedFeatures)} />
+              <ModelManager metadata={modelMetadata} onModelChange={handleModelChange} />
+              <CountryModels countries={countries} onCountriesChange={() => setCountries(getCountryNames())} />
+              <MarketIndexPanel onIndexChange={() => prediction && runValuation(features, market)} />
+            </div>
+          </div>
+
+          <div className={view === 'batch' ? 'p-8' : 'hidden'}>
+            <BatchValuation />
+          </div>
+
+          {view === 'history' && (
+            <div className="p-8">
+              <ValuationHistory onRerun={handleRerun} />
+            </div>
+          )}
+
+          {view === 'insights' && (
+            <div className="p-8">
+              <InsightsDashboard key={modelMetadata?.trainedAt ?? 'none'} />
             </div>
+          )}
+
+          <div className={view === 'training' ? 'p-8' : 'hidden'}>
+            <TrainingConsole metadata={modelMetadata} onModelChange={handleModelChange} />
           </div>
+
+          {view === 'quality' && (
+            <div className="p-8">
+              <ModelQuality key={modelMetadata?.trainedAt ?? 'none'} metadata={modelMetadata} />
+            </div>
+          )}
         </div>
       </div>
       <Toaster position="bottom-right" />
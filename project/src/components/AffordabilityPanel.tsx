@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { Landmark } from 'lucide-react';
+import type { AffordabilityInputs, LoanTerms, SavedValuation } from '../types';
+import { analyzeLoan, calculateAffordability, DEFAULT_AFFORDABILITY, DEFAULT_LOAN_TERMS } from '../utils/loan';
+import { listValuations } from '../utils/history';
+import { formatPrice } from '../utils/priceFormat';
+import { findCountry } from '../utils/locations';
+
+interface AffordabilityPanelProps {
+  price: number;
+  country: string;
+}
+
+const INPUT_CLASS = 'mt-1 w-full px-3 py-2 text-sm text-gray-700 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const sameCountry = (a: string, b: string) => (findCountry(a)?.name ?? a) === (findCountry(b)?.name ?? b);
+
+// Home-loan figures for the predicted price, and the reverse: the most the buyer's income supports
+function AffordabilityPanel({ price, country }: AffordabilityPanelProps) {
+  const [terms, setTerms] = useState<LoanTerms>(DEFAULT_LOAN_TERMS);
+  const [inputs, setInputs] = useState<AffordabilityInputs>(DEFAULT_AFFORDABILITY);
+  const [saved, setSaved] = useState<SavedValuation[]>([]);
+  const loan = analyzeLoan(price, terms);
+  const affordability = calculateAffordability(inputs, terms);
+  const format = (value: number) => formatPrice(value, country);
+
+  // Saved valuations in the same currency; refreshed when a new price comes in, as it is saved too
+  useEffect(() => {
+    listValuations()
+      .then(entries => setSaved(entries.filter(entry => sameCountry(entry.features.country, country))))
+      .catch(() => setSaved([]));
+  }, [price, country]);
+
+  const handleTermsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setTerms(prev => ({ ...prev, [name]: value === '' ? 0 : Number(value) }));
+  };
+
+  const handleInputsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setInputs(prev => ({ ...prev, [name]: value === '' ? 0 : Number(value) }));
+  };
+
+  const fits = price <= affordability.maxPrice;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-4">
+      <h3 className="text-sm font-medium text-gray-500 flex items-center gap-2">
+        <Landmark size={16} />
+        Home Loan & Affordability
+      </h3>
+
+      <div className="grid grid-cols-3 gap-4">
+        <label className="block text-xs text-gray-500">
+          Down payment (%)
+          <input
+            type="number"
+            name="downPaymentPercent"
+            min="0"
+            max="100"
+            step="1"
+            value={terms.downPaymentPercent}
+            onChange={handleTermsChange}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-xs text-gray-500">
+          Interest rate (% a year)
+          <input
+            type="number"
+            name="annualRate"
+            min="0"
+            max="50"
+            step="0.05"
+            value={terms.annualRate}
+            onChange={handleTermsChange}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="block text-xs text-gray-500">
+          Tenure (years)
+          <input
+            type="number"
+            name="tenureYears"
+            min="1"
+            max="40"
+            step="1"
+            value={terms.tenureYears}
+            onChange={handleTermsChange}
+            className={INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs text-gray-500">Monthly EMI</p>
+          <p className="text-2xl font-bold text-indigo-600">{format(loan.emi)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Loan amount</p>
+          <p className="text-xl font-bold text-gray-800">{format(loan.loanAmount)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Down payment</p>
+          <p className="text-xl font-bold text-gray-800">{format(loan.downPayment)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Total interest</p>
+          <p className="text-xl font-bold text-gray-800">{format(loan.totalInterest)}</p>
+        </div>
+      </div>
+
+      {loan.schedule.length > 0 && (
+        <details className="text-sm">
+          <summary className="cursor-pointer text-xs font-medium text-indigo-600">Amortization schedule</summary>
+          <div className="mt-2 max-h-64 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-1 pr-3 font-medium">Year</th>
+                  <th className="py-1 pr-3 font-medium text-right">Principal</th>
+                  <th className="py-1 pr-3 font-medium text-right">Interest</th>
+                  <th className="py-1 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {loan.schedule.map(row => (
+                  <tr key={row.year} className="border-b last:border-0 text-gray-700">
+                    <td className="py-1 pr-3">{row.year}</td>
+                    <td className="py-1 pr-3 text-right">{format(row.principal)}</td>
+                    <td className="py-1 pr-3 text-right">{format(row.interest)}</td>
+                    <td className="py-1 text-right">{format(row.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </details>
+      )}
+
+      <div className="pt-4 border-t border-gray-100 space-y-3">
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block text-xs text-gray-500">
+            Monthly income
+            <input
+              type="number"
+              name="monthlyIncome"
+              min="0"
+              step="1000"
+              value={inputs.monthlyIncome}
+              onChange={handleInputsChange}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="block text-xs text-gray-500">
+            EMI limit (% of income)
+            <input
+              type="number"
+              name="emiRatioPercent"
+              min="0"
+              max="100"
+              step="1"
+              value={inputs.emiRatioPercent}
+              onChange={handleInputsChange}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Maximum affordable price</p>
+          <p className="text-xl font-bold text-gray-800">
+            {Number.isFinite(affordability.maxPrice) ? format(affordability.maxPrice) : 'No limit'}
+          </p>
+          <p className={`text-xs mt-1 ${fits ? 'text-emerald-700' : 'text-amber-700'}`}>
+            {fits ? 'This property is within budget' : `This property is ${format(price - affordability.maxPrice)} over budget`}
+            {` · EMI up to ${format(affordability.maxEmi)} a month`}
+          </p>
+        </div>
+
+        {saved.length > 0 && (
+          <div>
+            <p className="text-xs text-gray-500 mb-1">Saved properties</p>
+            <ul className="space-y-1 text-xs max-h-48 overflow-y-auto">
+              {saved.map(entry => {
+                const withinBudget = entry.result.price <= affordability.maxPrice;
+                return (
+                  <li key={entry.id} className="flex justify-between gap-4">
+                    <span className={withinBudget ? 'text-gray-700' : 'text-gray-400'}>{entry.name}</span>
+                    <span className={`font-medium ${withinBudget ? 'text-emerald-700' : 'text-gray-400'}`}>
+                      {format(entry.result.price)} {withinBudget ? '✓' : '✗'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        EMIs assume a fixed rate and monthly compounding. Processing fees, stamp duty and registration charges are not included.
+      </p>
+    </div>
+  );
+}
+
+export default AffordabilityPanel;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Layers, Upload, Download } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { importPropertiesFromCSV } from '../utils/dataset';
+import { valueProperties, batchResultsToCSV } from '../utils/batch';
+import type { BatchRowResult } from '../utils/batch';
+import { predictPrices } from '../utils/prediction';
+import { formatPrice } from '../utils/priceFormat';
+import { AREA_UNIT_LABELS, getAreaUnit } from '../utils/areaUnits';
+import { getModelMetadata } from '../utils/modelClient';
+import { isLowReliability } from '../utils/novelty';
+import { downloadBlob } from '../utils/download';
+import { TrainingCancelledError } from '../utils/errors';
+import TrainingProgressBar from './TrainingProgressBar';
+
+const PREVIEW_ROWS = 50;
+
+function BatchValuation() {
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<BatchRowResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const imported = importPropertiesFromCSV(await file.text());
+    if (imported.error) {
+      toast.error(imported.error);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const valued = await valueProperties(
+        imported.records,
+        predictPrices,
+        async country => (await getModelMetadata(country))?.preprocessing
+      );
+      setFileName(file.name);
+      setHeaders(imported.headers);
+      setRows(valued);
+
+      const failed = valued.filter(row => row.error).length;
+      toast.success(`Valued ${valued.length - failed} of ${valued.length} properties`);
+    } catch (error) {
+      if (error instanceof TrainingCancelledError) {
+        toast('Model training cancelled');
+      } else {
+        toast.error('Error valuing properties. Please try again.');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const name = fileName.replace(/\.csv$/i, '') || 'properties';
+    downloadBlob(new Blob([batchResultsToCSV(headers, rows)], { type: 'text/csv' }), `${name}-valued.csv`);
+  };
+
+  const failed = rows.filter(row => row.error).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+            <Layers size={24} className="text-indigo-600" />
+            Batch Valuation
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Upload a CSV with size, bedrooms, bathrooms, city and state columns to value a whole portfolio at once.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors ${isLoading ? 'opacity-75 cursor-not-allowed' : 'cursor-pointer'}`}>
+            <Upload size={16} />
+            Upload portfolio CSV
+            <input type="file" accept=".csv" onChange={handleFileChange} disabled={isLoading} className="hidden" />
+          </label>
+          {rows.length > 0 && (
+            <button
+              type="button"
+              onClick={handleDownload}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-blue-600 text-sm font-medium text-white hover:from-indigo-700 hover:to-blue-700 transition-all"
+            >
+              <Download size={16} />
+              Download results
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isLoading && <TrainingProgressBar />}
+
+      {rows.length > 0 ? (
+        <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 overflow-x-auto">
+          <p className="text-sm text-gray-600 mb-3">
+            <span className="font-medium">{fileName}</span>: {rows.length - failed} valued, {failed} with errors
+            {rows.length > PREVIEW_ROWS && ` · showing the first ${PREVIEW_ROWS} rows`}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Row</th>
+                <th className="py-2 pr-4 font-medium">Property</th>
+                <th className="py-2 pr-4 font-medium text-right">Price</th>
+                <th className="py-2 pr-4 font-medium text-right">Range</th>
+                <th className="py-2 pr-4 font-medium text-right">Confidence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, PREVIEW_ROWS).map(({ record, result, error, warnings }) => (
+                <tr key={record.row} className="border-b last:border-0 text-gray-700">
+                  <td className="py-2 pr-4">{record.row}</td>
+                  <td className="py-2 pr-4">
+                    {record.features.bedrooms || '?'} bed · {record.features.size || '?'} {AREA_UNIT_LABELS[getAreaUnit(record.features)] ?? record.features.areaUnit} · {record.features.city || '?'}
+                    {warnings.length > 0 && (
+                      <p className="text-xs text-amber-700 mt-0.5">{warnings.join('; ')}</p>
+                    )}
+                  </td>
+                  {result ? (
+                    <>
+                      <td className="py-2 pr-4 text-right font-medium">{formatPrice(result.price, record.features.country)}</td>
+                      <td className="py-2 pr-4 text-right">{formatPrice(result.low, record.features.country)} – {formatPrice(result.high, record.features.country)}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {result.confidence}%
+                        {isLowReliability(result.novelty) && (
+                          <p className="text-xs text-amber-700" title={result.novelty?.reasons.join('\n')}>Low reliability</p>
+                        )}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="py-2 pr-4 text-right text-red-600">{error}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center text-gray-500 py-12">
+          <Layers size={64} className="mx-auto mb-6 opacity-50" />
+          <p className="text-lg">No portfolio uploaded yet</p>
+          <p className="text-sm text-gray-400 mt-2">Results keep your original columns and add price, range, confidence, novelty, warning and error columns</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default BatchValuation;
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Users } from 'lucide-react';
+import type { ComparablesResult } from '../types';
+import { blendEstimates } from '../utils/comparables';
+import { formatPrice } from '../utils/priceFormat';
+
+interface ComparablesPanelProps {
+  comparables: ComparablesResult;
+  modelPrice: number;
+  country: string;
+}
+
+// Nearest sold listings, the price they suggest, and a blend with the neural network
+function ComparablesPanel({ comparables, modelPrice, country }: ComparablesPanelProps) {
+  const [compsWeight, setCompsWeight] = useState(50);
+
+  if (comparables.estimate === null) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
+        <h3 className="text-sm font-medium text-gray-500 flex items-center gap-2">
+          <Users size={16} />
+          Comparable Sales
+        </h3>
+        <p className="text-sm text-gray-500 mt-2">
+          Import a dataset of real transactions to see comparable properties and a comps-based estimate.
+        </p>
+      </div>
+    );
+  }
+
+  const blended = blendEstimates(modelPrice, comparables.estimate, compsWeight / 100);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-4">
+      <h3 className="text-sm font-medium text-gray-500 flex items-center gap-2">
+        <Users size={16} />
+        Comparable Sales
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-xs text-gray-500">Comps estimate</p>
+          <p className="text-xl font-bold text-gray-800">{formatPrice(comparables.estimate, country)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Blended estimate</p>
+          <p className="text-xl font-bold text-indigo-600">{formatPrice(blended, country)}</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-500">
+          Weight given to comparables: {compsWeight}%
+        </label>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          step="5"
+          value={compsWeight}
+          onChange={e => setCompsWeight(Number(e.target.value))}
+          className="w-full accent-indigo-600"
+        />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-3 font-medium">Property</th>
+              <th className="py-2 pr-3 font-medium text-right">Price</th>
+              <th className="py-2 pr-3 font-medium text-right">Per sq ft</th>
+              <th className="py-2 font-medium text-right">Distance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparables.comparables.map((comparable, i) => (
+              <tr key={i} className="border-b last:border-0 text-gray-700">
+                <td className="py-2 pr-3">
+                  {comparable.features.bedrooms} bed · {comparable.features.bathrooms} bath · {Math.round(comparable.features.size)} sq ft
+                  <span className="block text-gray-400">{comparable.features.city}, {comparable.features.state} · {comparable.features.location}</span>
+                </td>
+                <td className="py-2 pr-3 text-right">{formatPrice(comparable.price, country)}</td>
+                <td className="py-2 pr-3 text-right">{formatPrice(comparable.pricePerSqFt, country)}</td>
+                <td className="py-2 text-right">{comparable.distance.toFixed(3)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-400">
+        Distance is measured on the same scaled features the model uses; smaller means more similar.
+      </p>
+    </div>
+  );
+}
+
+export default ComparablesPanel;
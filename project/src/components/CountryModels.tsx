@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Globe, Download, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { ModelMetadata } from '../types';
+import { exportModel, getCountryModels, registerCountry, removeCountryModel, trainCountryModel } from '../utils/modelClient';
+import { getCountrySettings, getModelCountry, parseCountryConfig } from '../utils/locations';
+import { AREA_UNIT_LABELS } from '../utils/areaUnits';
+import { TrainingCancelledError } from '../utils/errors';
+import TrainingProgressBar from './TrainingProgressBar';
+
+interface CountryModelsProps {
+  countries: string[];
+  onCountriesChange: () => void;
+}
+
+// Location tables and price models for countries other than the default one
+function CountryModels({ countries, onCountriesChange }: CountryModelsProps) {
+  const [models, setModels] = useState<ModelMetadata[]>([]);
+  const [busyCountry, setBusyCountry] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCountryModels().then(setModels).catch(() => setModels([]));
+  }, [countries]);
+
+  const ownModelCountries = countries.filter(country => getModelCountry(country) !== null);
+
+  // Run a model action for one country, then refresh the list of country models
+  const runForCountry = async (country: string, action: () => Promise<unknown>, success: string) => {
+    setBusyCountry(country);
+    try {
+      await action();
+      setModels(await getCountryModels());
+      toast.success(success);
+    } catch (error) {
+      if (error instanceof TrainingCancelledError) {
+        toast('Training cancelled');
+      } else {
+        toast.error(error instanceof Error ? error.message : `Could not update the ${country} model`);
+      }
+    } finally {
+      setBusyCountry(null);
+    }
+  };
+
+  const handleImportTable = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const config = parseCountryConfig(JSON.parse(await file.text()));
+      await registerCountry(config);
+      onCountriesChange();
+      toast.success(`Added ${config.name} with ${config.states.length} states`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the location table');
+    }
+  };
+
+  return (
+    <div className="bg-sky-50 p-6 rounded-xl space-y-4">
+      <h3 className="text-lg font-medium text-sky-900 flex items-center gap-2">
+        <Globe size={20} className="text-sky-600" />
+        Countries
+      </h3>
+
+      <p className="text-sm text-gray-600">
+        Each country below is valued by a model of its own, trained on its imported listings (or synthetic ones in its
+        currency) the first time one of its properties is valued. Add a country with a JSON location table in the same
+        layout as the bundled one; added tables last for this session.
+      </p>
+
+      {ownModelCountries.length > 0 && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-sky-100">
+              <th className="py-2 pr-4 font-medium">Country</th>
+              <th className="py-2 pr-4 font-medium">Currency · unit</th>
+              <th className="py-2 pr-4 font-medium">Model</th>
+              <th className="py-2 font-medium" />
+            </tr>
+          </thead>
+          <tbody>
+            {ownModelCountries.map(country => {
+              const metadata = models.find(model => model.country === country);
+              const { currency, areaUnit } = getCountrySettings(country);
+              const isBusy = busyCountry === country;
+              return (
+                <tr key={country} className="border-b border-sky-100 last:border-0 text-gray-700">
+                  <td className="py-2 pr-4">{country}</td>
+                  <td className="py-2 pr-4">{currency} · {AREA_UNIT_LABELS[areaUnit]}</td>
+                  <td className="py-2 pr-4 text-xs text-gray-500">
+                    {metadata
+                      ? `Trained ${new Date(metadata.trainedAt).toLocaleString()} on ${metadata.trainingSize} ${metadata.trainingSource === 'dataset' ? 'imported listings' : 'synthetic samples'}`
+                      : 'Not trained yet'}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex items-center justify-end gap-1">
+                      <button
+                        type="button"
+                        onClick={() => runForCountry(country, () => trainCountryModel(country), `${country} model trained`)}
+                        disabled={busyCountry !== null}
+                        title={metadata ? 'Retrain' : 'Train'}
+                        className="p-1.5 rounded-lg text-gray-600 hover:bg-sky-100 disabled:opacity-50"
+                      >
+                        <RefreshCw size={16} className={isBusy ? 'animate-spin' : ''} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => runForCountry(country, () => exportModel(country), `${country} model exported`)}
+                        disabled={busyCountry !== null}
+                        title="Export model"
+                        className="p-1.5 rounded-lg text-gray-600 hover:bg-sky-100 disabled:opacity-50"
+                      >
+                        <Download size={16} />
+                      </button>
+                      {metadata && (
+                        <button
+                          type="button"
+                          onClick={() => runForCountry(country, () => removeCountryModel(country), `${country} model removed`)}
+                          disabled={busyCountry !== null}
+                          title="Remove model"
+                          className="p-1.5 rounded-lg text-gray-600 hover:bg-sky-100 disabled:opacity-50"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {busyCountry && <TrainingProgressBar />}
+
+      <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-sky-200 text-sm font-medium text-sky-700 cursor-pointer hover:bg-sky-100 transition-colors">
+        <Upload size={16} />
+        Add location table
+        <input type="file" accept=".json" onChange={handleImportTable} className="hidden" />
+      </label>
+      <p className="text-xs text-gray-500">
+        A model exported here is imported through Trained Model; it replaces the model of the country it was trained for.
+      </p>
+    </div>
+  );
+}
+
+export default CountryModels;
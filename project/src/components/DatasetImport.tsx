@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Upload, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { DatasetImportResult, TrainingDataSource, ValuationTarget } from '../types';
+import { MIN_TRAINING_EXAMPLES, importDatasetFile } from '../utils/dataset';
+import { onTrainingCountChange, setRentalDataset, setTrainingDataset } from '../utils/modelClient';
+
+const MAX_ERRORS_SHOWN = 10;
+
+// Wording and upload target for sales listings (price model) and rental listings (rent model)
+const DATASET_KINDS = {
+  price: {
+    title: 'Training Data',
+    listings: 'listings',
+    label: 'price',
+    description: 'real transactions',
+    model: 'model',
+    setDataset: setTrainingDataset
+  },
+  rent: {
+    title: 'Rental Data',
+    listings: 'rental listings',
+    label: 'monthly rent',
+    description: 'let properties',
+    model: 'rent model',
+    setDataset: setRentalDataset
+  }
+};
+
+interface DatasetImportProps {
+  target?: ValuationTarget;
+  onDatasetChange: () => void;
+}
+
+function DatasetImport({ target = 'price', onDatasetChange }: DatasetImportProps) {
+  const kind = DATASET_KINDS[target];
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<DatasetImportResult | null>(null);
+  const [source, setSource] = useState<TrainingDataSource>({ source: 'synthetic', size: 0 });
+  // Listings can't be swapped while a model trains on them
+  const [isTraining, setIsTraining] = useState(false);
+
+  useEffect(() => onTrainingCountChange(running => setIsTraining(running > 0)), []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await importDatasetFile(file, {}, target);
+      setFileName(file.name);
+      setResult(imported);
+
+      if (imported.examples.length === 0) {
+        toast.error(`No valid ${kind.listings} found in the dataset`);
+        return;
+      }
+      if (imported.examples.length < MIN_TRAINING_EXAMPLES) {
+        toast.error(`Only ${imported.examples.length} valid ${kind.listings} found; at least ${MIN_TRAINING_EXAMPLES} are needed to train the ${kind.model}`);
+        return;
+      }
+
+      setSource(await kind.setDataset(imported.examples));
+      onDatasetChange();
+      toast.success(`Loaded ${imported.examples.length} ${kind.listings}. The ${kind.model} will retrain on the next prediction.`);
+    } catch {
+      toast.error('Could not read the dataset file');
+    }
+  };
+
+  const handleReset = async () => {
+    setSource(await kind.setDataset([]));
+    onDatasetChange();
+    setResult(null);
+    setFileName('');
+    toast.success('Switched back to synthetic training data');
+  };
+
+  return (
+    <div className="bg-purple-50 p-6 rounded-xl space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h3 className="text-lg font-medium text-purple-900 flex items-center gap-2">
+          <Database size={20} className="text-purple-600" />
+          {kind.title}
+        </h3>
+        <p className="text-sm text-purple-700">
+          {source.source === 'dataset'
+            ? `Training on ${source.size} imported ${kind.listings}`
+            : 'Training on synthetic data'}
+        </p>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Upload a CSV or JSON file of {kind.description} with columns for size, bedrooms, bathrooms, city, state and {kind.label}.
+        Area type, year built, property type, carpet area, floor, furnishing and amenity columns are optional.
+      </p>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <label
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-purple-200 text-sm font-medium text-purple-700 transition-colors ${isTraining ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-purple-100'}`}
+          title={isTraining ? 'Wait for training to finish before importing' : undefined}
+        >
+          <Upload size={16} />
+          Import dataset
+          <input
+            type="file"
+            accept=".csv,.json"
+            onChange={handleFileChange}
+            disabled={isTraining}
+            className="hidden"
+          />
+        </label>
+        {source.source === 'dataset' && (
+          <button
+            type="button"
+            onClick={handleReset}
+            disabled={isTraining}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            Use synthetic data
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <div className="text-sm space-y-2">
+          <p className="text-gray-700">
+            <span className="font-medium">{fileName}</span>: {result.examples.length} of {result.totalRows} rows imported
+          </p>
+          {result.errors.length > 0 && (
+            <div className="bg-white rounded-lg p-4 border border-amber-200">
+              <p className="font-medium text-amber-800 flex items-center gap-2">
+                <AlertTriangle size={16} />
+                {result.errors.length} problem{result.errors.length === 1 ? '' : 's'} found
+              </p>
+              <ul className="mt-2 space-y-1 text-amber-700">
+                {result.errors.slice(0, MAX_ERRORS_SHOWN).map((error, i) => (
+                  <li key={i}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}</li>
+                ))}
+              </ul>
+              {result.errors.length > MAX_ERRORS_SHOWN && (
+                <p className="mt-2 text-amber-600">and {result.errors.length - MAX_ERRORS_SHOWN} more…</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DatasetImport;
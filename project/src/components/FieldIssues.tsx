@@ -0,0 +1,29 @@
+import type { FeatureValidation, HouseFeatures } from '../types';
+import { getFieldIssues } from '../utils/validation';
+
+interface FieldIssuesProps {
+  validation: FeatureValidation;
+  field: keyof HouseFeatures;
+  // Errors only appear once the user has tried to value the property
+  showErrors: boolean;
+}
+
+// Inline errors and warnings shown under a form field
+function FieldIssues({ validation, field, showErrors }: FieldIssuesProps) {
+  const { errors, warnings } = getFieldIssues(validation, field);
+  const shownErrors = showErrors ? errors : [];
+  if (shownErrors.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {shownErrors.map(message => (
+        <p key={message} className="text-xs text-red-600">{message}</p>
+      ))}
+      {warnings.map(message => (
+        <p key={message} className="text-xs text-amber-700">{message}</p>
+      ))}
+    </div>
+  );
+}
+
+export default FieldIssues;
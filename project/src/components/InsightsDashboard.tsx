@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { LineChart, Download, Play } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { TrainingListings } from '../types';
+import {
+  AGE_BANDS,
+  NO_FILTERS,
+  ageCurvesToCSV,
+  amenityPremiums,
+  amenityPremiumsToCSV,
+  filterListings,
+  getFilterOptions,
+  groupStatsToCSV,
+  priceByAreaType,
+  pricePerSqftByAge,
+  pricePerSqftByLocation,
+  queryModelInsights
+} from '../utils/insights';
+import type { AgeCurvePoint, GroupStats, InsightFilters, ModelInsights } from '../utils/insights';
+import { getMarketListings } from '../utils/modelClient';
+import { predictPrices } from '../utils/prediction';
+import { formatCompactPrice, formatPrice } from '../utils/priceFormat';
+import { downloadBlob } from '../utils/download';
+import { TrainingCancelledError } from '../utils/errors';
+import TrainingProgressBar from './TrainingProgressBar';
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = { top: 12, right: 12, bottom: 24, left: 64 };
+
+const selectClassName = 'mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm';
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+const downloadCSV = (csv: string, name: string) => {
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), `${name}.csv`);
+};
+
+// Card around one chart, with its CSV download
+function ChartCard({ title, onExport, children }: { title: string; onExport: () => void; children: ReactNode }) {
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-gray-500">{title}</h3>
+        <button
+          type="button"
+          onClick={onExport}
+          title="Download this chart's data as CSV"
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100"
+        >
+          <Download size={14} />
+          CSV
+        </button>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// Horizontal bars at each group's median, with the middle half of its listings shaded behind
+function RangeBars({ groups, format }: { groups: GroupStats[]; format: (value: number) => string }) {
+  if (groups.length === 0) {
+    return <p className="text-sm text-gray-500">No listings match these filters.</p>;
+  }
+
+  const max = Math.max(...groups.map(group => group.high));
+  const percent = (value: number) => `${(value / (max || 1)) * 100}%`;
+
+  return (
+    <ul className="space-y-2 text-xs">
+      {groups.map(group => (
+        <li key={group.label} className="grid grid-cols-[8rem_1fr_6rem] items-center gap-3">
+          <span className="truncate text-gray-700 capitalize" title={group.label}>{group.label}</span>
+          <div className="relative h-4 bg-gray-100 rounded">
+            <div className="absolute inset-y-0 bg-indigo-100 rounded" style={{ left: percent(group.low), width: percent(group.high - group.low) }} />
+            <div className="absolute inset-y-0 left-0 border-r-2 border-indigo-600" style={{ width: percent(group.median) }} />
+          </div>
+          <span className="text-right text-gray-700" title={`${group.count} listings; middle half ${format(group.low)} – ${format(group.high)}`}>
+            {format(group.median)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Median price per sq ft by building age: in the listings, and as the model predicts it
+function AgeCurves({ listed, model }: { listed: GroupStats[]; model: AgeCurvePoint[] }) {
+  const labels = AGE_BANDS
+    .map(band => band.label)
+    .filter(label => listed.some(group => group.label === label) || model.some(point => point.label === label));
+  const order = (label: string) => labels.indexOf(label);
+  const values = [...listed.map(group => group.median), ...model.map(point => point.pricePerSqft)];
+  if (values.length === 0) {
+    return <p className="text-sm text-gray-500">No listings match these filters.</p>;
+  }
+
+  const [minY, maxY] = [Math.min(...values), Math.max(...values)];
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const toX = (i: number) => CHART_PADDING.left + (i / Math.max(1, labels.length - 1)) * plotWidth;
+  const toY = (value: number) => CHART_PADDING.top + (1 - (value - minY) / (maxY - minY || 1)) * plotHeight;
+
+  const line = (points: { label: string; value: number }[]) => points
+    .map(point => `${toX(order(point.label))},${toY(point.value)}`)
+    .join(' ');
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label="Price per sq ft by building age">
+        <polyline
+          points={line(listed.map(group => ({ label: group.label, value: group.median })))}
+          fill="none"
+          className="stroke-indigo-600"
+          strokeWidth={2}
+        />
+        <polyline
+          points={line(model.map(point => ({ label: point.label, value: point.pricePerSqft })))}
+          fill="none"
+          className="stroke-amber-500"
+          strokeWidth={2}
+          strokeDasharray="4 3"
+        />
+        <text x={CHART_PADDING.left - 6} y={toY(maxY) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {formatCompactPrice(maxY)}
+        </text>
+        <text x={CHART_PADDING.left - 6} y={toY(minY)} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {formatCompactPrice(minY)}
+        </text>
+        {labels.map((label, i) => (
+          <text key={label} x={toX(i)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {label} yrs
+          </text>
+        ))}
+      </svg>
+      <div className="flex items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-indigo-600" /> listings</span>
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-amber-500" /> model</span>
+      </div>
+    </div>
+  );
+}
+
+// Overview of the listings behind the default model, with filters, model queries and CSV export
+function InsightsDashboard() {
+  const [listings, setListings] = useState<TrainingListings | null>(null);
+  const [filters, setFilters] = useState<InsightFilters>(NO_FILTERS);
+  const [modelInsights, setModelInsights] = useState<ModelInsights | null>(null);
+  const [isQuerying, setIsQuerying] = useState(false);
+  const currentYear = new Date().getFullYear();
+
+  useEffect(() => {
+    getMarketListings()
+      .then(setListings)
+      .catch(() => toast.error('Could not load the listings'));
+  }, []);
+
+  const examples = useMemo(() => listings?.examples ?? [], [listings]);
+  const filtered = useMemo(() => filterListings(examples, filters), [examples, filters]);
+  const options = useMemo(() => getFilterOptions(examples, filters), [examples, filters]);
+  const byState = useMemo(() => pricePerSqftByLocation(filtered, 'state'), [filtered]);
+  const byCity = useMemo(() => pricePerSqftByLocation(filtered, 'city'), [filtered]);
+  const byAreaType = useMemo(() => priceByAreaType(filtered), [filtered]);
+  const byAge = useMemo(() => pricePerSqftByAge(filtered, currentYear), [filtered, currentYear]);
+  const amenities = useMemo(() => amenityPremiums(filtered, modelInsights), [filtered, modelInsights]);
+
+  // Model answers describe the listings they were asked about, so a new filter clears them
+  const updateFilters = (change: Partial<InsightFilters>) => {
+    setFilters(previous => ({ ...previous, ...change }));
+    setModelInsights(null);
+  };
+
+  const handleQueryModel = async () => {
+    setIsQuerying(true);
+    try {
+      setModelInsights(await queryModelInsights(filtered, predictPrices, currentYear));
+    } catch (error) {
+      if (!(error instanceof TrainingCancelledError)) {
+        toast.error('Could not query the model');
+      }
+    } finally {
+      setIsQuerying(false);
+    }
+  };
+
+  const perSqft = (value: number) => `${formatPrice(value)}/sq ft`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+          <LineChart size={24} className="text-indigo-600" />
+          Market Insights
+        </h2>
+        <p className="text-sm text-gray-600 mt-1">
+          {listings
+            ? `${filtered.length} of ${examples.length} ${listings.source === 'dataset' ? 'imported listings' : 'synthetic listings the model trains on (import a dataset to see your own market)'}`
+            : 'Loading listings…'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 bg-gray-50 p-4 rounded-xl">
+        <label className="block text-xs text-gray-500">
+          State
+          <select
+            value={filters.state}
+            onChange={e => updateFilters({ state: e.target.value, city: '' })}
+            className={selectClassName}
+          >
+            <option value="">All states</option>
+            {options.states.map(state => <option key={state} value={state}>{state}</option>)}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-500">
+          City
+          <select
+            value={filters.city}
+            onChange={e => updateFilters({ city: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">All cities</option>
+            {options.cities.map(city => <option key={city} value={city}>{city}</option>)}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-500">
+          Bedrooms
+          <select
+            value={filters.bedrooms ?? ''}
+            onChange={e => updateFilters({ bedrooms: e.target.value === '' ? null : Number(e.target.value) })}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            {options.bedrooms.map(bedrooms => <option key={bedrooms} value={bedrooms}>{bedrooms}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <ChartCard
+          title="Price per sq ft by state"
+          onExport={() => downloadCSV(groupStatsToCSV(byState, 'state', 'price_per_sqft'), 'price-per-sqft-by-state')}
+        >
+          <RangeBars groups={byState} format={perSqft} />
+        </ChartCard>
+
+        <ChartCard
+          title="Price per sq ft by city"
+          onExport={() => downloadCSV(groupStatsToCSV(byCity, 'city', 'price_per_sqft'), 'price-per-sqft-by-city')}
+        >
+          <RangeBars groups={byCity} format={perSqft} />
+        </ChartCard>
+
+        <ChartCard
+          title="Price by area type"
+          onExport={() => downloadCSV(groupStatsToCSV(byAreaType, 'area_type', 'price'), 'price-by-area-type')}
+        >
+          <RangeBars groups={byAreaType} format={value => formatCompactPrice(value)} />
+        </ChartCard>
+
+        <ChartCard
+          title="Price per sq ft by building age"
+          onExport={() => downloadCSV(ageCurvesToCSV(byAge, modelInsights?.ageCurve ?? []), 'price-per-sqft-by-age')}
+        >
+          <AgeCurves listed={byAge} model={modelInsights?.ageCurve ?? []} />
+        </ChartCard>
+      </div>
+
+      <ChartCard
+        title="Amenity premiums"
+        onExport={() => downloadCSV(amenityPremiumsToCSV(amenities), 'amenity-premiums')}
+      >
+        <p className="text-xs text-gray-500">
+          The listed gap compares the median price per sq ft of listings with and without each amenity, so it also reflects
+          where and what those listings are. The model premium switches only that amenity on a sample of the listings, which
+          isolates what the model pays for it.
+        </p>
+        <button
+          type="button"
+          onClick={handleQueryModel}
+          disabled={isQuerying || filtered.length === 0}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors ${isQuerying ? 'opacity-75 cursor-not-allowed' : ''}`}
+        >
+          <Play size={16} />
+          {isQuerying ? 'Querying the model…' : 'Query the model'}
+        </button>
+        {isQuerying && <TrainingProgressBar />}
+        {filtered.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Amenity</th>
+                <th className="py-2 pr-4 font-medium text-right">Listed gap</th>
+                <th className="py-2 pr-4 font-medium text-right">Model premium</th>
+                <th className="py-2 font-medium text-right">Typical value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {amenities.map(amenity => (
+                <tr key={amenity.feature} className="border-b last:border-0 text-gray-700">
+                  <td className="py-2 pr-4">{amenity.label}</td>
+                  <td className="py-2 pr-4 text-right">{amenity.listed === null ? '–' : formatPercent(amenity.listed)}</td>
+                  <td className="py-2 pr-4 text-right font-medium">{amenity.model === null ? '–' : formatPercent(amenity.model)}</td>
+                  <td className="py-2 text-right">{amenity.modelValue === null ? '–' : formatPrice(amenity.modelValue)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {modelInsights && (
+          <p className="text-xs text-gray-400">
+            Model figures are medians over {modelInsights.sampleSize} sampled listings; the age curve above now shows the model's line too.
+          </p>
+        )}
+      </ChartCard>
+    </div>
+  );
+}
+
+export default InsightsDashboard;
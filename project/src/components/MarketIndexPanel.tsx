@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { TrendingUp, Upload } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { MarketIndexInfo } from '../types';
+import { importMarketIndexFile, formatMonth } from '../utils/marketIndex';
+import { getMarketIndex, setMarketIndex } from '../utils/modelClient';
+
+interface MarketIndexPanelProps {
+  onIndexChange: () => void;
+}
+
+function MarketIndexPanel({ onIndexChange }: MarketIndexPanelProps) {
+  const [info, setInfo] = useState<MarketIndexInfo | null>(null);
+  const [fileName, setFileName] = useState('');
+
+  useEffect(() => {
+    getMarketIndex().then(setInfo).catch(() => setInfo(null));
+  }, []);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const index = await importMarketIndexFile(file);
+      setInfo(await setMarketIndex(index));
+      setFileName(file.name);
+      onIndexChange();
+      toast.success(`Loaded ${index.series.length} market index series`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the market index file');
+    }
+  };
+
+  const handleReset = async () => {
+    setInfo(await setMarketIndex(null));
+    setFileName('');
+    onIndexChange();
+    toast.success('Switched back to the bundled market index');
+  };
+
+  return (
+    <div className="bg-emerald-50 p-6 rounded-xl space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h3 className="text-lg font-medium text-emerald-900 flex items-center gap-2">
+          <TrendingUp size={20} className="text-emerald-600" />
+          Market Index
+        </h3>
+        {info && (
+          <p className="text-sm text-emerald-700">
+            {info.source === 'imported' ? fileName || 'Imported index' : 'Bundled index'}
+            {` · ${info.seriesCount} series · ${formatMonth(info.firstDate)} to ${formatMonth(info.lastDate)}`}
+          </p>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Model prices are taken to reflect the market in {info ? formatMonth(info.baseDate) : 'the index base month'} and are
+        moved to the valuation date using the city, state or national price index. Upload a CSV with date (YYYY-MM),
+        state, city and index columns, or a JSON file in the same layout as the bundled index.
+      </p>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-emerald-200 text-sm font-medium text-emerald-700 cursor-pointer hover:bg-emerald-100 transition-colors">
+          <Upload size={16} />
+          Import index
+          <input type="file" accept=".csv,.json" onChange={handleFileChange} className="hidden" />
+        </label>
+        {info?.source === 'imported' && (
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 hover:text-gray-800"
+          >
+            Use bundled index
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MarketIndexPanel;
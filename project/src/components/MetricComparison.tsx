@@ -0,0 +1,42 @@
+import type { MetricComparison as MetricComparisonRow } from '../types';
+import { METRIC_LABELS, formatMetric } from '../utils/metricFormat';
+
+interface MetricComparisonProps {
+  title: string;
+  comparison: MetricComparisonRow[];
+  baselineLabel: string;
+  candidateLabel: string;
+  // Country whose currency the errors are in; the default country when absent
+  country?: string;
+}
+
+// Overall metrics of two models side by side, with the candidate's improvements in green
+function MetricComparison({ title, comparison, baselineLabel, candidateLabel, country }: MetricComparisonProps) {
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
+      <h3 className="text-sm font-medium text-gray-500 mb-3">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4 font-medium">Metric</th>
+            <th className="py-2 pr-4 font-medium text-right">{baselineLabel}</th>
+            <th className="py-2 pr-4 font-medium text-right">{candidateLabel}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.map(row => (
+            <tr key={row.metric} className="border-b last:border-0 text-gray-700">
+              <td className="py-2 pr-4">{METRIC_LABELS[row.metric]}</td>
+              <td className="py-2 pr-4 text-right">{formatMetric(row.metric, row.baseline, country)}</td>
+              <td className={`py-2 pr-4 text-right font-medium ${row.improved ? 'text-green-600' : 'text-red-600'}`}>
+                {formatMetric(row.metric, row.candidate, country)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default MetricComparison;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Cpu, Download, Upload, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { ModelMetadata } from '../types';
+import { exportModel, importModel, restoreStoredModel, trainNewModel, getModelMetadata } from '../utils/modelClient';
+import { TrainingCancelledError } from '../utils/errors';
+import TrainingProgressBar from './TrainingProgressBar';
+
+interface ModelManagerProps {
+  metadata: ModelMetadata | null;
+  onModelChange: (metadata: ModelMetadata | null) => void;
+}
+
+function ModelManager({ metadata, onModelChange }: ModelManagerProps) {
+  const [isTraining, setIsTraining] = useState(false);
+
+  // Load the model saved by a previous visit so the first prediction skips training
+  useEffect(() => {
+    getModelMetadata()
+      .then(current => current ?? restoreStoredModel())
+      .then(onModelChange)
+      .catch(() => onModelChange(null));
+  }, [onModelChange]);
+
+  const handleExport = async () => {
+    try {
+      await exportModel();
+      onModelChange(await getModelMetadata());
+    } catch (error) {
+      if (!(error instanceof TrainingCancelledError)) {
+        toast.error('Could not export the model');
+      }
+    }
+  };
+
+  const handleRetrain = async () => {
+    setIsTraining(true);
+    try {
+      onModelChange(await trainNewModel());
+      toast.success('Model retrained');
+    } catch (error) {
+      toast.error(error instanceof TrainingCancelledError ? 'Training cancelled' : 'Could not train the model');
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const imported = await importModel(files);
+      if (imported.country) {
+        toast.success(`Model for ${imported.country} imported and saved for future visits`);
+        return;
+      }
+      onModelChange(imported);
+      toast.success('Model imported and saved for future visits');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not import the model');
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 p-6 rounded-xl space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center gap-2">
+          <Cpu size={20} className="text-indigo-600" />
+          Trained Model
+        </h3>
+        <p className="text-sm text-gray-600">
+          {metadata
+            ? `Trained ${new Date(metadata.trainedAt).toLocaleString()} on ${metadata.trainingSize} ${metadata.trainingSource === 'dataset' ? 'imported listings' : 'synthetic samples'}`
+            : 'No trained model yet. One will be trained on the first prediction.'}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <button
+          type="button"
+          onClick={handleRetrain}
+          disabled={isTraining}
+          className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors ${isTraining ? 'opacity-75 cursor-not-allowed' : ''}`}
+        >
+          <RefreshCw size={16} className={isTraining ? 'animate-spin' : ''} />
+          Retrain now
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+        >
+          <Download size={16} />
+          Export model
+        </button>
+        <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors">
+          <Upload size={16} />
+          Import model
+          <input type="file" accept=".json,.bin" multiple onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+      {isTraining && <TrainingProgressBar />}
+
+      <p className="text-xs text-gray-500">
+        Exporting downloads a model.json and a weights .bin file. Select both when importing.
+      </p>
+    </div>
+  );
+}
+
+export default ModelManager;
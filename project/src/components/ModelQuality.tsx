@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { BarChart2, RefreshCw, GitCompare } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { EvaluationReport, ModelMetadata, RegressionMetrics } from '../types';
+import { evaluateModel, evaluateModelFiles } from '../utils/modelClient';
+import { compareEvaluationReports } from '../utils/evaluation';
+import { METRIC_LABELS, METRIC_NAMES, formatMetric } from '../utils/metricFormat';
+import MetricComparison from './MetricComparison';
+
+interface ModelQualityProps {
+  metadata: ModelMetadata | null;
+}
+
+function MetricsTable({ title, groups, country }: { title: string; groups: { [key: string]: RegressionMetrics }; country?: string }) {
+  const rows = Object.entries(groups).sort(([a], [b]) => a.localeCompare(b));
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 overflow-x-auto">
+      <h3 className="text-sm font-medium text-gray-500 mb-3">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4 font-medium">Group</th>
+            <th className="py-2 pr-4 font-medium text-right">Listings</th>
+            {METRIC_NAMES.map(metric => (
+              <th key={metric} className="py-2 pr-4 font-medium text-right">{METRIC_LABELS[metric]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([group, metrics]) => (
+            <tr key={group} className="border-b last:border-0 text-gray-700">
+              <td className="py-2 pr-4 capitalize">{group}</td>
+              <td className="py-2 pr-4 text-right">{metrics.count}</td>
+              {METRIC_NAMES.map(metric => (
+                <td key={metric} className="py-2 pr-4 text-right">{formatMetric(metric, metrics[metric], country)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function ModelQuality({ metadata }: ModelQualityProps) {
+  const [report, setReport] = useState<EvaluationReport | null>(metadata?.evaluation ?? null);
+  const [candidate, setCandidate] = useState<EvaluationReport | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+
+  const handleEvaluate = async () => {
+    setIsEvaluating(true);
+    try {
+      setReport(await evaluateModel());
+    } catch {
+      toast.error('Could not evaluate the model');
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const handleCompare = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsEvaluating(true);
+    try {
+      if (!report) {
+        setReport(await evaluateModel());
+      }
+      setCandidate(await evaluateModelFiles(files));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not evaluate the selected model');
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const comparison = report && candidate ? compareEvaluationReports(report, candidate) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+            <BarChart2 size={24} className="text-indigo-600" />
+            Model Quality
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Errors on listings held out from training, measured on the raw model output before market adjustments.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={handleEvaluate}
+            disabled={isEvaluating}
+            className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors ${isEvaluating ? 'opacity-75 cursor-not-allowed' : ''}`}
+          >
+            <RefreshCw size={16} className={isEvaluating ? 'animate-spin' : ''} />
+            {report ? 'Re-evaluate' : 'Evaluate model'}
+          </button>
+          <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors">
+            <GitCompare size={16} />
+            Compare with model files
+            <input type="file" accept=".json,.bin" multiple onChange={handleCompare} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {report ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {METRIC_NAMES.map(metric => (
+              <div key={metric} className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
+                <h3 className="text-sm font-medium text-gray-500">{METRIC_LABELS[metric]}</h3>
+                <p className="text-2xl font-bold text-indigo-600 mt-2">{formatMetric(metric, report.overall[metric], metadata?.country)}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {report.overall.count} held-out listings · evaluated {new Date(report.evaluatedAt).toLocaleString()}
+          </p>
+
+          {comparison && (
+            <MetricComparison
+              title="Current model vs. selected model"
+              comparison={comparison}
+              baselineLabel="Current"
+              candidateLabel="Selected"
+              country={metadata?.country}
+            />
+          )}
+
+          <MetricsTable
+            title="By area type"
+            groups={report.byLocation}
+            country={metadata?.country}
+          />
+          <MetricsTable
+            title="By state"
+            groups={report.byState}
+            country={metadata?.country}
+          />
+          <MetricsTable
+            title="By price band"
+            groups={report.byPriceBand}
+            country={metadata?.country}
+          />
+        </>
+      ) : (
+        <div className="text-center text-gray-500 py-12">
+          <BarChart2 size={64} className="mx-auto mb-6 opacity-50" />
+          <p className="text-lg">No evaluation yet</p>
+          <p className="text-sm text-gray-400 mt-2">Train the model or click Evaluate model to measure it on held-out listings</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ModelQuality;
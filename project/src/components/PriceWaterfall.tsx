@@ -0,0 +1,82 @@
+import type { PriceExplanation } from '../types';
+import { formatPrice } from '../utils/priceFormat';
+import { FEATURE_LABELS } from '../utils/featureSchema';
+
+interface PriceWaterfallProps {
+  explanation: PriceExplanation;
+  country: string;
+}
+
+interface WaterfallStep {
+  label: string;
+  detail?: string;
+  start: number;
+  end: number;
+  total: boolean;
+}
+
+const formatDelta = (value: number, country: string) => {
+  return `${value >= 0 ? '+' : '−'}${formatPrice(Math.abs(value), country)}`;
+};
+
+// Waterfall from the average listing, through each feature and market adjustment, to the predicted price
+function PriceWaterfall({ explanation, country }: PriceWaterfallProps) {
+  const steps: WaterfallStep[] = [];
+  let running = explanation.baseValue;
+
+  steps.push({ label: 'Average listing', start: 0, end: running, total: true });
+  [...explanation.contributions]
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .forEach(contribution => {
+      steps.push({ label: FEATURE_LABELS[contribution.feature] ?? contribution.feature, start: running, end: running + contribution.value, total: false });
+      running += contribution.value;
+    });
+
+  steps.push({ label: 'Model estimate', start: 0, end: explanation.modelPrice, total: true });
+  running = explanation.modelPrice;
+  explanation.adjustments.forEach(adjustment => {
+    steps.push({ label: adjustment.label, detail: adjustment.detail, start: running, end: running + adjustment.value, total: false });
+    running += adjustment.value;
+  });
+  steps.push({ label: 'Predicted price', start: 0, end: explanation.finalPrice, total: true });
+
+  const values = steps.flatMap(step => [step.start, step.end]);
+  const min = Math.min(0, ...values);
+  const range = Math.max(...values) - min || 1;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50">
+      <h3 className="text-sm font-medium text-gray-500">What drives this price</h3>
+      <p className="text-xs text-gray-400 mt-1">
+        Each bar shows how much a property detail or market adjustment moved the price, starting from the average listing the model was trained on.
+      </p>
+      <div className="mt-4 space-y-2">
+        {steps.map((step, i) => {
+          const delta = step.end - step.start;
+          const left = ((Math.min(step.start, step.end) - min) / range) * 100;
+          const width = Math.max(0.5, (Math.abs(delta) / range) * 100);
+          const color = step.total ? 'bg-indigo-500' : delta >= 0 ? 'bg-green-500' : 'bg-red-500';
+
+          return (
+            <div key={i} className="grid grid-cols-12 items-center gap-2 text-xs">
+              <span
+                title={step.detail ? `${step.label} (${step.detail})` : step.label}
+                className={`col-span-3 truncate ${step.total ? 'font-semibold text-gray-800' : 'text-gray-600'}`}
+              >
+                {step.label}
+              </span>
+              <div className="col-span-6 relative h-4 bg-gray-50 rounded">
+                <div className={`absolute h-full rounded ${color}`} style={{ left: `${left}%`, width: `${width}%` }} />
+              </div>
+              <span className={`col-span-3 text-right ${step.total ? 'font-semibold text-gray-800' : delta >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                {step.total ? formatPrice(step.end, country) : formatDelta(delta, country)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default PriceWaterfall;
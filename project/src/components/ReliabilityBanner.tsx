@@ -0,0 +1,31 @@
+import { AlertTriangle } from 'lucide-react';
+import type { NoveltyAssessment } from '../types';
+import { isLowReliability } from '../utils/novelty';
+
+interface ReliabilityBannerProps {
+  novelty?: NoveltyAssessment;
+}
+
+// Warns when the property is unlike the listings the model learned from, and says why
+function ReliabilityBanner({ novelty }: ReliabilityBannerProps) {
+  if (!novelty || !isLowReliability(novelty)) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 p-4 rounded-xl flex items-start gap-3" role="alert">
+      <AlertTriangle className="text-amber-600 shrink-0" size={20} />
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-amber-900">
+          Low reliability: this property is unlike the listings the model was trained on (novelty {novelty.score}/100)
+        </p>
+        <ul className="list-disc pl-4 text-xs text-amber-800 space-y-0.5">
+          {novelty.reasons.map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+        <p className="text-xs text-amber-700">
+          The model extrapolates here, so treat the price as a rough guide. The confidence score has been lowered to match.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default ReliabilityBanner;
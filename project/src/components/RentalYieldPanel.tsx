@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { KeyRound, RefreshCw } from 'lucide-react';
+import type { PredictionResult, YieldAssumptions } from '../types';
+import { analyzeRentalYield, DEFAULT_YIELD_ASSUMPTIONS } from '../utils/rentalYield';
+import { formatIndianPrice } from '../utils/prediction';
+
+interface RentalYieldPanelProps {
+  price: number;
+  // Null while the rent is being estimated, or when it could not be
+  rent: PredictionResult | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+function PanelHeading() {
+  return (
+    <h3 className="text-sm font-medium text-gray-500 flex items-center gap-2">
+      <KeyRound size={16} />
+      Rental Yield
+    </h3>
+  );
+}
+
+// Estimated monthly rent from the rent model and the yield it gives at the predicted price.
+// The rent arrives after the price, so the panel also shows its progress or why it is missing.
+function RentalYieldPanel({ price, rent, isLoading, error }: RentalYieldPanelProps) {
+  const [assumptions, setAssumptions] = useState<YieldAssumptions>(DEFAULT_YIELD_ASSUMPTIONS);
+
+  const handleAssumptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setAssumptions(prev => ({ ...prev, [name]: value === '' ? 0 : Number(value) }));
+  };
+
+  if (!rent) {
+    if (!isLoading && !error) return null;
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-2">
+        <PanelHeading />
+        <p className="text-sm text-gray-500 flex items-center gap-2">
+          {isLoading && <RefreshCw size={14} className="animate-spin" />}
+          {isLoading ? 'Estimating the rent…' : error}
+        </p>
+      </div>
+    );
+  }
+
+  const analysis = analyzeRentalYield(price, rent.price, assumptions);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-4">
+      <PanelHeading />
+
+      <div>
+        <p className="text-xs text-gray-500">Estimated rent</p>
+        <p className="text-2xl font-bold text-indigo-600">
+          {formatIndianPrice(rent.price)}<span className="text-sm font-medium text-gray-500"> / month</span>
+        </p>
+        <p className="text-xs text-gray-500 mt-1">
+          Likely range: {formatIndianPrice(rent.low)} – {formatIndianPrice(rent.high)}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <p className="text-xs text-gray-500">Gross yield</p>
+          <p className="text-xl font-bold text-gray-800">{formatPercent(analysis.grossYield)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Net yield</p>
+          <p className="text-xl font-bold text-gray-800">{formatPercent(analysis.netYield)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Price-to-rent</p>
+          <p className="text-xl font-bold text-gray-800">{Number.isFinite(analysis.priceToRent) ? analysis.priceToRent.toFixed(1) : '—'}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-xs text-gray-500">
+          Maintenance & property tax (% of rent)
+          <input
+            type="number"
+            name="maintenancePercent"
+            min="0"
+            max="100"
+            step="1"
+            value={assumptions.maintenancePercent}
+            onChange={handleAssumptionChange}
+            className="mt-1 w-full px-3 py-2 text-sm text-gray-700 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+        <label className="block text-xs text-gray-500">
+          Vacancy (months a year)
+          <input
+            type="number"
+            name="vacancyMonths"
+            min="0"
+            max="12"
+            step="0.5"
+            value={assumptions.vacancyMonths}
+            onChange={handleAssumptionChange}
+            className="mt-1 w-full px-3 py-2 text-sm text-gray-700 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Net income of {formatIndianPrice(analysis.netAnnualIncome)} a year after {formatIndianPrice(analysis.vacancyLoss)} of vacancy
+        and {formatIndianPrice(analysis.maintenanceCost)} of running costs. The price-to-rent ratio is the number of years of gross rent the price represents.
+      </p>
+    </div>
+  );
+}
+
+export default RentalYieldPanel;
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { SlidersHorizontal, Play } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { HouseFeatures } from '../types';
+import { FEATURE_LABELS } from '../utils/featureSchema';
+import { SWEEP_FIELDS, defaultSweepRange, isNumericField, runSensitivity, sweepValues } from '../utils/sensitivity';
+import type { SensitivityAxis, SensitivityGrid, SweepField, SweepRange, SweepValue } from '../utils/sensitivity';
+import { formatCompactPrice, formatPrice } from '../utils/priceFormat';
+import { TrainingCancelledError } from '../utils/errors';
+
+interface SensitivityExplorerProps {
+  features: HouseFeatures;
+}
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 56 };
+
+const formatSweepValue = (value: SweepValue) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Editable min/max for a numeric axis
+function RangeInputs({ range, onChange }: { range: SweepRange; onChange: (range: SweepRange) => void }) {
+  return (
+    <div className="grid grid-cols-2 gap-2 mt-2">
+      {(['min', 'max'] as const).map(bound => (
+        <input
+          key={bound}
+          type="number"
+          value={range[bound]}
+          onChange={e => onChange({ ...range, [bound]: parseFloat(e.target.value) || 0 })}
+          aria-label={bound === 'min' ? 'From' : 'To'}
+          className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+        />
+      ))}
+    </div>
+  );
+}
+
+// Price curve for a single swept field, with the likely range shaded and the current property marked
+function PriceCurve({ grid, current, country }: { grid: SensitivityGrid; current: SweepValue; country: string }) {
+  const { x, results } = grid;
+  const numeric = isNumericField(x.field);
+  const points = x.values
+    .map((value, i) => ({ value, i, result: results[0][i] }))
+    .filter((point): point is typeof point & { result: NonNullable<typeof point.result> } => point.result !== null);
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">None of these values form a valid property.</p>;
+  }
+
+  const xs = x.values.map((value, i) => numeric ? Number(value) : i);
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+  const prices = points.flatMap(point => [point.result.low, point.result.high]);
+  const [minY, maxY] = [Math.min(...prices), Math.max(...prices)];
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const toX = (i: number) => CHART_PADDING.left + ((xs[i] - minX) / (maxX - minX || 1)) * plotWidth;
+  const toY = (price: number) => CHART_PADDING.top + (1 - (price - minY) / (maxY - minY || 1)) * plotHeight;
+
+  const line = points.map(point => `${toX(point.i)},${toY(point.result.price)}`).join(' ');
+  const band = [
+    ...points.map(point => `${toX(point.i)},${toY(point.result.high)}`),
+    ...[...points].reverse().map(point => `${toX(point.i)},${toY(point.result.low)}`)
+  ].join(' ');
+  const marked = points.find(point => point.value === current);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label="Price by value">
+      <polygon points={band} className="fill-indigo-100" />
+      <polyline points={line} fill="none" className="stroke-indigo-600" strokeWidth={2} />
+      {points.map(point => (
+        <circle key={point.i} cx={toX(point.i)} cy={toY(point.result.price)} r={2.5} className="fill-indigo-600">
+          <title>{`${formatSweepValue(point.value)}: ${formatPrice(point.result.price, country)}`}</title>
+        </circle>
+      ))}
+      {marked && (
+        <circle cx={toX(marked.i)} cy={toY(marked.result.price)} r={6} fill="none" className="stroke-amber-500" strokeWidth={2.5} />
+      )}
+      <text x={CHART_PADDING.left - 6} y={toY(maxY) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatCompactPrice(maxY, country)}
+      </text>
+      <text x={CHART_PADDING.left - 6} y={toY(minY)} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatCompactPrice(minY, country)}
+      </text>
+      {x.values.map((value, i) => (
+        <text key={i} x={toX(i)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">
+          {formatSweepValue(value)}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+// Price for every combination of two swept fields, shaded from cheapest to dearest
+function PriceHeatmap({ grid, current, country }: { grid: SensitivityGrid; current: [SweepValue, SweepValue]; country: string }) {
+  const { x, y, results } = grid;
+  if (!y) return null;
+
+  const prices = results.flat().flatMap(result => result ? [result.price] : []);
+  const [min, max] = [Math.min(...prices), Math.max(...prices)];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-[11px] border-separate border-spacing-0.5">
+        <tbody>
+          {[...y.values].reverse().map((yValue, reversedRow) => {
+            const row = y.values.length - 1 - reversedRow;
+            return (
+              <tr key={row}>
+                <th className="pr-2 text-right font-medium text-gray-500">{formatSweepValue(yValue)}</th>
+                {x.values.map((xValue, column) => {
+                  const result = results[row][column];
+                  const isCurrent = xValue === current[0] && yValue === current[1];
+                  const shade = result ? (result.price - min) / (max - min || 1) : 0;
+                  return (
+                    <td
+                      key={column}
+                      title={result ? formatPrice(result.price, country) : 'Not a valid property'}
+                      className={`px-1.5 py-1 text-center rounded ${isCurrent ? 'ring-2 ring-amber-500' : ''} ${result ? '' : 'bg-gray-100 text-gray-400'}`}
+                      style={result ? {
+                        backgroundColor: `rgba(79, 70, 229, ${0.1 + shade * 0.8})`,
+                        color: shade > 0.5 ? 'white' : '#1f2937'
+                      } : undefined}
+                    >
+                      {result ? formatCompactPrice(result.price, country) : '–'}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+          <tr>
+            <th />
+            {x.values.map((value, column) => (
+              <th key={column} className="pt-1 font-medium text-gray-500">{formatSweepValue(value)}</th>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Sweep one or two fields of the current property and chart how the price responds
+function SensitivityExplorer({ features }: SensitivityExplorerProps) {
+  const [xField, setXField] = useState<SweepField>('size');
+  const [yField, setYField] = useState<SweepField | ''>('');
+  const [xRange, setXRange] = useState<SweepRange>(() => defaultSweepRange('size', features));
+  const [yRange, setYRange] = useState<SweepRange | null>(null);
+  const [grid, setGrid] = useState<SensitivityGrid | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleXFieldChange = (field: SweepField) => {
+    setXField(field);
+    setXRange(isNumericField(field) ? defaultSweepRange(field, features) : xRange);
+  };
+
+  const handleYFieldChange = (field: SweepField | '') => {
+    setYField(field);
+    setYRange(field && isNumericField(field) ? defaultSweepRange(field, features, 7) : null);
+  };
+
+  const handleRun = async () => {
+    const x: SensitivityAxis = { field: xField, values: sweepValues(xField, features, xRange) };
+    const y: SensitivityAxis | null = yField
+      ? { field: yField, values: sweepValues(yField, features, yRange ?? undefined) }
+      : null;
+
+    setIsRunning(true);
+    try {
+      setGrid(await runSensitivity(features, x, y));
+    } catch (error) {
+      if (!(error instanceof TrainingCancelledError)) {
+        toast.error('Could not run the sensitivity analysis');
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const fieldSelect = (value: SweepField | '', onChange: (field: SweepField) => void, allowNone: boolean) => (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value as SweepField)}
+      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+    >
+      {allowNone && <option value="">None</option>}
+      {SWEEP_FIELDS.filter(field => !allowNone || field !== xField).map(field => (
+        <option key={field} value={field}>{FEATURE_LABELS[field]}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 flex items-center gap-2">
+          <SlidersHorizontal size={16} />
+          What if?
+        </h3>
+        <p className="text-xs text-gray-400 mt-1">
+          Vary one or two details of this property and see how the predicted price responds. The current property is circled.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-gray-500">Vary</label>
+          {fieldSelect(xField, handleXFieldChange, false)}
+          {isNumericField(xField) && <RangeInputs range={xRange} onChange={setXRange} />}
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500">Against</label>
+          {fieldSelect(yField, handleYFieldChange, true)}
+          {yRange && <RangeInputs range={yRange} onChange={setYRange} />}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleRun}
+        disabled={isRunning}
+        className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors ${isRunning ? 'opacity-75 cursor-not-allowed' : ''}`}
+      >
+        <Play size={16} />
+        {isRunning ? 'Running…' : 'Run'}
+      </button>
+
+      {grid && (grid.y
+        ? <PriceHeatmap grid={grid} current={[features[grid.x.field], features[grid.y.field]]} country={features.country} />
+        : <PriceCurve grid={grid} current={features[grid.x.field]} country={features.country} />)}
+    </div>
+  );
+}
+
+export default SensitivityExplorer;
@@ -0,0 +1,346 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, Play, Plus, Trash2, RotateCcw, ArrowUpCircle, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { CandidateModel, Hyperparameters, ModelMetadata, TrainingProgress } from '../types';
+import { cancelTraining, discardCandidate, onTrainingProgress, promoteCandidate, trainCandidateModel } from '../utils/modelClient';
+import { DEFAULT_HYPERPARAMETERS, MAX_HIDDEN_LAYERS, validateHyperparameters } from '../utils/hyperparameters';
+import { compareEvaluationReports } from '../utils/evaluation';
+import { TrainingCancelledError } from '../utils/errors';
+import MetricComparison from './MetricComparison';
+
+interface TrainingConsoleProps {
+  metadata: ModelMetadata | null;
+  onModelChange: (metadata: ModelMetadata | null) => void;
+}
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 12, right: 12, bottom: 24, left: 56 };
+
+const inputClassName = 'mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm';
+
+// Training and validation loss per epoch, on a log scale so late improvements stay visible
+function LossCurve({ history }: { history: TrainingProgress[] }) {
+  const points = history.filter(progress => progress.loss > 0);
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">Loss curves appear after the first epoch.</p>;
+  }
+
+  const totalEpochs = points[0].totalEpochs;
+  const losses = points.flatMap(progress => [progress.loss, progress.valLoss ?? progress.loss]).filter(loss => loss > 0);
+  const [minY, maxY] = [Math.log10(Math.min(...losses)), Math.log10(Math.max(...losses))];
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const toX = (epoch: number) => CHART_PADDING.left + ((epoch - 1) / Math.max(1, totalEpochs - 1)) * plotWidth;
+  const toY = (loss: number) => CHART_PADDING.top + (1 - (Math.log10(loss) - minY) / (maxY - minY || 1)) * plotHeight;
+
+  const line = (select: (progress: TrainingProgress) => number | undefined) => points
+    .flatMap(progress => {
+      const loss = select(progress);
+      return loss !== undefined && loss > 0 ? [`${toX(progress.epoch)},${toY(loss)}`] : [];
+    })
+    .join(' ');
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full" role="img" aria-label="Loss by epoch">
+        <polyline points={line(progress => progress.loss)} fill="none" className="stroke-indigo-600" strokeWidth={2} />
+        <polyline points={line(progress => progress.valLoss)} fill="none" className="stroke-amber-500" strokeWidth={2} strokeDasharray="4 3" />
+        <text x={CHART_PADDING.left - 6} y={CHART_PADDING.top + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {(10 ** maxY).toExponential(1)}
+        </text>
+        <text x={CHART_PADDING.left - 6} y={CHART_PADDING.top + plotHeight} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {(10 ** minY).toExponential(1)}
+        </text>
+        <text x={toX(1)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">1</text>
+        <text x={toX(totalEpochs)} y={CHART_HEIGHT - 6} textAnchor="middle" className="fill-gray-500 text-[10px]">{totalEpochs}</text>
+      </svg>
+      <div className="flex items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-indigo-600" /> loss</span>
+        <span className="flex items-center gap-1"><span className="w-4 h-0.5 bg-amber-500" /> validation loss</span>
+      </div>
+    </div>
+  );
+}
+
+// Admin screen for training a model with custom hyperparameters and promoting it if it scores better
+function TrainingConsole({ metadata, onModelChange }: TrainingConsoleProps) {
+  const [hyperparameters, setHyperparameters] = useState<Hyperparameters>(() => metadata?.hyperparameters ?? DEFAULT_HYPERPARAMETERS);
+  const [history, setHistory] = useState<TrainingProgress[]>([]);
+  const [candidate, setCandidate] = useState<CandidateModel | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+
+  // Only record progress from trainings started here, not from predictions that train a model
+  const recording = useRef(false);
+  useEffect(() => onTrainingProgress(progress => {
+    if (recording.current) setHistory(previous => [...previous, progress]);
+  }), []);
+
+  const errors = validateHyperparameters(hyperparameters);
+
+  const update = (changes: Partial<Hyperparameters>) => {
+    setHyperparameters(previous => ({ ...previous, ...changes }));
+  };
+
+  const updateLayer = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setHyperparameters(previous => ({
+      ...previous,
+      layers: previous.layers.map((layer, i) => i === index ? { ...layer, [name]: parseFloat(value) || 0 } : layer)
+    }));
+  };
+
+  const handleTrain = async () => {
+    setIsTraining(true);
+    setHistory([]);
+    setCandidate(null);
+    recording.current = true;
+    try {
+      const result = await trainCandidateModel(hyperparameters);
+      setCandidate(result);
+      toast.success(result.better ? 'Training finished. The new model scores better.' : 'Training finished. The new model does not beat the current one.');
+    } catch (error) {
+      if (error instanceof TrainingCancelledError) {
+        toast('Model training cancelled');
+      } else {
+        toast.error(error instanceof Error ? error.message : 'Could not train the model');
+      }
+    } finally {
+      recording.current = false;
+      setIsTraining(false);
+    }
+  };
+
+  const handlePromote = async () => {
+    try {
+      onModelChange(await promoteCandidate());
+      setCandidate(null);
+      toast.success('The new model is now used for predictions');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not promote the model');
+    }
+  };
+
+  const handleDiscard = async () => {
+    await discardCandidate();
+    setCandidate(null);
+  };
+
+  const comparison = candidate?.baseline && candidate.metadata.evaluation
+    ? compareEvaluationReports(candidate.baseline, candidate.metadata.evaluation)
+    : null;
+  const latest = history[history.length - 1];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+          <SlidersHorizontal size={24} className="text-indigo-600" />
+          Training
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Train on the imported dataset (or synthetic listings when none is loaded) with your own settings.
+          The current model keeps serving predictions until you promote a better one.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-500">Hidden layers</h3>
+            <button
+              type="button"
+              onClick={() => update({ layers: [...hyperparameters.layers, { units: 16, dropout: 0 }] })}
+              disabled={isTraining || hyperparameters.layers.length >= MAX_HIDDEN_LAYERS}
+              className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+            >
+              <Plus size={14} />
+              Add layer
+            </button>
+          </div>
+          {hyperparameters.layers.map((layer, i) => (
+            <div key={i} className="grid grid-cols-[auto_1fr_1fr_auto] items-end gap-3">
+              <span className="text-sm text-gray-500 pb-2">{i + 1}</span>
+              <label className="block text-sm font-medium text-gray-700">
+                Units
+                <input type="number" name="units" min="1" value={layer.units} onChange={e => updateLayer(i, e)} disabled={isTraining} className={inputClassName} />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Dropout
+                <input type="number" name="dropout" min="0" max="0.9" step="0.05" value={layer.dropout} onChange={e => updateLayer(i, e)} disabled={isTraining} className={inputClassName} />
+              </label>
+              <button
+                type="button"
+                onClick={() => update({ layers: hyperparameters.layers.filter((_, j) => j !== i) })}
+                disabled={isTraining || hyperparameters.layers.length <= 1}
+                className="pb-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                aria-label={`Remove layer ${i + 1}`}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">Dropout also drives the price ranges, which are estimated by sampling with dropout active.</p>
+        </div>
+
+        <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-4">
+          <h3 className="text-sm font-medium text-gray-500">Fit options</h3>
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Learning rate
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                value={hyperparameters.learningRate}
+                onChange={e => update({ learningRate: parseFloat(e.target.value) || 0 })}
+                disabled={isTraining}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Epochs
+              <input
+                type="number"
+                min="1"
+                value={hyperparameters.epochs}
+                onChange={e => update({ epochs: parseInt(e.target.value, 10) || 0 })}
+                disabled={isTraining}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Batch size
+              <input
+                type="number"
+                min="1"
+                value={hyperparameters.batchSize}
+                onChange={e => update({ batchSize: parseInt(e.target.value, 10) || 0 })}
+                disabled={isTraining}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-3 flex-wrap">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={hyperparameters.earlyStopping.enabled}
+                onChange={e => update({ earlyStopping: { ...hyperparameters.earlyStopping, enabled: e.target.checked } })}
+                disabled={isTraining}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Stop early when validation loss has not improved for
+            </label>
+            <input
+              type="number"
+              min="1"
+              value={hyperparameters.earlyStopping.patience}
+              onChange={e => update({ earlyStopping: { ...hyperparameters.earlyStopping, patience: parseInt(e.target.value, 10) || 0 } })}
+              disabled={isTraining || !hyperparameters.earlyStopping.enabled}
+              className="w-20 rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+            />
+            <span className="text-sm text-gray-700">epochs</span>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-0.5">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex items-center gap-3 pt-2">
+            <button
+              type="button"
+              onClick={handleTrain}
+              disabled={isTraining || errors.length > 0}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-gradient-to-r from-indigo-600 to-blue-600 text-sm font-medium text-white hover:from-indigo-700 hover:to-blue-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Play size={16} />
+              {isTraining ? 'Training…' : 'Start training'}
+            </button>
+            {isTraining ? (
+              <button
+                type="button"
+                onClick={() => cancelTraining(history.at(-1)?.trainingId ?? 0)}
+                disabled={history.length === 0}
+                className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-red-600 disabled:opacity-50"
+              >
+                <X size={14} />
+                Cancel
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setHyperparameters(DEFAULT_HYPERPARAMETERS)}
+                className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+              >
+                <RotateCcw size={14} />
+                Reset to defaults
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {(isTraining || history.length > 0) && (
+        <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <h3 className="font-medium text-gray-500">Loss</h3>
+            {latest && (
+              <span className="text-gray-600">
+                epoch {latest.epoch} of {latest.totalEpochs} · loss {latest.loss.toExponential(3)}
+                {latest.valLoss !== undefined && ` · val_loss ${latest.valLoss.toExponential(3)}`}
+              </span>
+            )}
+          </div>
+          <LossCurve history={history} />
+        </div>
+      )}
+
+      {candidate && (
+        <div className="space-y-4">
+          {comparison ? (
+            <MetricComparison
+              title="Current model vs. new model on the same held-out listings"
+              comparison={comparison}
+              baselineLabel="Current"
+              candidateLabel="New"
+              country={candidate.metadata.country}
+            />
+          ) : (
+            <p className="text-sm text-gray-600">There is no current model to compare with, so the new model can be promoted directly.</p>
+          )}
+          {candidate.metadata.epochsTrained !== undefined && candidate.metadata.epochsTrained < (candidate.metadata.hyperparameters?.epochs ?? 0) && (
+            <p className="text-xs text-gray-500">Stopped early after {candidate.metadata.epochsTrained} epochs.</p>
+          )}
+          <div className="flex items-center gap-3">
+            {candidate.better ? (
+              <button
+                type="button"
+                onClick={handlePromote}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 text-sm font-medium text-white hover:bg-green-700 transition-colors"
+              >
+                <ArrowUpCircle size={16} />
+                Promote to predictions
+              </button>
+            ) : (
+              <p className="text-sm text-red-600">The new model does not beat the current one on most metrics, so it cannot be promoted.</p>
+            )}
+            <button
+              type="button"
+              onClick={handleDiscard}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-100 transition-colors"
+            >
+              <Trash2 size={16} />
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TrainingConsole;
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { TrainingProgress } from '../types';
+import { onTrainingProgress, cancelTraining } from '../utils/modelClient';
+
+// Live per-epoch training progress; renders nothing until the worker reports an epoch
+function TrainingProgressBar() {
+  const [progress, setProgress] = useState<TrainingProgress | null>(null);
+
+  useEffect(() => onTrainingProgress(setProgress), []);
+
+  if (!progress) return null;
+
+  const percent = Math.round((progress.epoch / progress.totalEpochs) * 100);
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-indigo-100 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-700">
+          Training model: epoch {progress.epoch} of {progress.totalEpochs}
+        </span>
+        <button
+          type="button"
+          onClick={() => cancelTraining(progress.trainingId)}
+          className="inline-flex items-center gap-1 text-gray-500 hover:text-red-600"
+        >
+          <X size={14} />
+          Cancel
+        </button>
+      </div>
+      <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-indigo-600 to-blue-600 rounded-full transition-all duration-300"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        loss {progress.loss.toExponential(3)}
+        {progress.valLoss !== undefined && ` · val_loss ${progress.valLoss.toExponential(3)}`}
+      </p>
+    </div>
+  );
+}
+
+export default TrainingProgressBar;
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { History, Search, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import type { HouseFeatures, SavedValuation } from '../types';
+import { listValuations, deleteValuation, searchValuations } from '../utils/history';
+import { FEATURE_LABELS } from '../utils/featureSchema';
+import { formatMonth } from '../utils/marketIndex';
+import { formatPrice } from '../utils/priceFormat';
+import { AREA_UNIT_LABELS, getAreaUnit } from '../utils/areaUnits';
+
+interface ValuationHistoryProps {
+  onRerun: (entry: SavedValuation) => void;
+}
+
+interface ComparisonRow {
+  label: string;
+  value: (entry: SavedValuation) => string;
+}
+
+const formatFeature = (value: HouseFeatures[keyof HouseFeatures]) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Rows of the side-by-side comparison: location, every model input, then the results
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: 'City', value: entry => entry.features.city },
+  { label: 'Area unit', value: entry => AREA_UNIT_LABELS[getAreaUnit(entry.features)] },
+  ...(Object.keys(FEATURE_LABELS) as (keyof HouseFeatures)[]).map(feature => ({
+    label: FEATURE_LABELS[feature] ?? feature,
+    value: (entry: SavedValuation) => formatFeature(entry.features[feature])
+  })),
+  {
+    label: 'Valued as of',
+    value: entry => entry.market.enabled
+      ? formatMonth(entry.market.valuationDate ?? entry.savedAt.slice(0, 7))
+      : 'No market adjustment'
+  },
+  { label: 'Predicted price', value: entry => formatPrice(entry.result.price, entry.features.country) },
+  {
+    label: 'Likely range',
+    value: entry => `${formatPrice(entry.result.low, entry.features.country)} – ${formatPrice(entry.result.high, entry.features.country)}`
+  },
+  { label: 'Confidence', value: entry => `${entry.result.confidence}%` },
+  { label: 'Model trained', value: entry => entry.model ? new Date(entry.model.trainedAt).toLocaleString() : 'Unknown' }
+];
+
+function ValuationHistory({ onRerun }: ValuationHistoryProps) {
+  const [entries, setEntries] = useState<SavedValuation[]>([]);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    listValuations()
+      .then(setEntries)
+      .catch(() => toast.error('Could not load saved valuations'));
+  }, []);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteValuation(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      setSelected(prev => prev.filter(other => other !== id));
+    } catch {
+      toast.error('Could not delete the valuation');
+    }
+  };
+
+  const visible = searchValuations(entries, query);
+  const compared = entries.filter(entry => selected.includes(entry.id));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+            <History size={24} className="text-indigo-600" />
+            Valuation History
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Every valuation is saved in this browser. Select two or more to compare them side by side.
+          </p>
+        </div>
+        <div className="relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search by city, state or type"
+            className="pl-9 rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+          />
+        </div>
+      </div>
+
+      {compared.length >= 2 && (
+        <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 overflow-x-auto">
+          <h3 className="text-sm font-medium text-gray-500 mb-3">Comparison</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium" />
+                {compared.map(entry => (
+                  <th key={entry.id} className="py-2 pr-4 font-medium">{entry.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {COMPARISON_ROWS.map(row => {
+                const values = compared.map(row.value);
+                const differs = values.some(value => value !== values[0]);
+                return (
+                  <tr key={row.label} className={`border-b last:border-0 ${differs ? 'bg-amber-50 text-gray-900' : 'text-gray-600'}`}>
+                    <td className="py-2 pr-4 font-medium">{row.label}</td>
+                    {values.map((value, i) => (
+                      <td key={compared[i].id} className={`py-2 pr-4 ${differs ? 'font-medium' : ''}`}>{value}</td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {visible.length > 0 ? (
+        <div className="bg-white p-6 rounded-xl shadow-md border border-indigo-50 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Compare</th>
+                <th className="py-2 pr-4 font-medium">Property</th>
+                <th className="py-2 pr-4 font-medium text-right">Price</th>
+                <th className="py-2 pr-4 font-medium text-right">Saved</th>
+                <th className="py-2 pr-4 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr key={entry.id} className="border-b last:border-0 text-gray-700">
+                  <td className="py-2 pr-4">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                      aria-label={`Compare ${entry.name}`}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <p className="font-medium">{entry.name}</p>
+                    <p className="text-xs text-gray-500">{entry.features.size} {AREA_UNIT_LABELS[getAreaUnit(entry.features)]} · {entry.features.state}</p>
+                  </td>
+                  <td className="py-2 pr-4 text-right font-medium">{formatPrice(entry.result.price, entry.features.country)}</td>
+                  <td className="py-2 pr-4 text-right text-gray-500">{new Date(entry.savedAt).toLocaleString()}</td>
+                  <td className="py-2 pr-4">
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => onRerun(entry)}
+                        title="Value again with the current model"
+                        className="inline-flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-200 text-xs font-medium text-gray-700 hover:bg-gray-100"
+                      >
+                        <RotateCcw size={14} />
+                        Re-run
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(entry.id)}
+                        title="Delete"
+                        className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center text-gray-500 py-12">
+          <History size={64} className="mx-auto mb-6 opacity-50" />
+          <p className="text-lg">{entries.length > 0 ? 'No valuations match your search' : 'No saved valuations yet'}</p>
+          <p className="text-sm text-gray-400 mt-2">Valuations are saved automatically each time you calculate a price</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ValuationHistory;
@@ -0,0 +1,89 @@
+// UI-free entry point: the model, data import and valuation helpers without React or the web worker.
+// Everything here runs in the browser or in Node with @tensorflow/tfjs.
+
+export type * from '../types';
+
+export {
+  predictPriceWithAI as predictPrice,
+  predictPricesWithAI as predictPrices,
+  explainPriceWithAI as explainPrice,
+  findComparableListings,
+  setTrainingDataset,
+  getTrainingDataSource,
+  trainNewModel,
+  onTrainingProgress,
+  onTrainingCountChange,
+  cancelTraining,
+  exportModel,
+  importSerializedModel,
+  getModelMetadata,
+  evaluateActiveModel,
+  setMarketIndex,
+  setMarketSettings,
+  getMarketIndexInfo,
+  predictRentWithAI as predictRent,
+  predictRentsWithAI as predictRents,
+  setRentalDataset,
+  getRentalDataSource,
+  getRentModelMetadata,
+  setRandomSeed,
+  setClock,
+  addCountry as registerCountry,
+  trainCountryModel,
+  removeCountryModel,
+  getCountryModels
+} from '../utils/model';
+
+export {
+  importDatasetFromCSV,
+  importDatasetFromJSON,
+  importPropertiesFromCSV,
+  importPropertiesFromJSON,
+  MIN_TRAINING_EXAMPLES
+} from '../utils/dataset';
+export type { ColumnMapping, PropertyRecord, PropertyImport } from '../utils/dataset';
+
+export { valueProperties, batchResultsToCSV } from '../utils/batch';
+export type { BatchRowResult, PreprocessingLookup, PricePredictor } from '../utils/batch';
+
+export { validateHouseFeatures } from '../utils/validation';
+export { assessNovelty, isLowReliability, LOW_RELIABILITY_SCORE } from '../utils/novelty';
+export { HOUSE_FEATURES_JSON_SCHEMA, validateJsonSchema } from '../utils/jsonSchema';
+export type { JsonSchema, SchemaViolation } from '../utils/jsonSchema';
+export {
+  FEATURE_COLUMNS,
+  FEATURE_LABELS,
+  FEATURE_SCHEMA_VERSION,
+  SCALED_FEATURES,
+  createDefaultFeatures,
+  featuresToVector
+} from '../utils/featureSchema';
+export { fitPreprocessing } from '../utils/preprocessing';
+export { analyzeRentalYield, DEFAULT_YIELD_ASSUMPTIONS } from '../utils/rentalYield';
+export {
+  amenityPremiums,
+  filterListings,
+  priceByAreaType,
+  pricePerSqftByAge,
+  pricePerSqftByLocation,
+  queryModelInsights
+} from '../utils/insights';
+export type { AmenityPremium, GroupStats, InsightFilters, ModelInsights } from '../utils/insights';
+export {
+  analyzeLoan,
+  calculateAffordability,
+  calculateEmi,
+  DEFAULT_AFFORDABILITY,
+  DEFAULT_LOAN_TERMS
+} from '../utils/loan';
+export {
+  canonicalizeLocation,
+  getCountryNames,
+  getCountrySettings,
+  parseCountryConfig
+} from '../utils/locations';
+export { AREA_UNITS, AREA_UNIT_LABELS, convertArea, toSquareFeet } from '../utils/areaUnits';
+export { formatPrice, formatCompactPrice } from '../utils/priceFormat';
+export { parseMarketIndexCSV, parseMarketIndexJSON, toMonthNumber } from '../utils/marketIndex';
+export { parseCSV, formatCSV } from '../utils/csv';
+export { TrainingCancelledError } from '../utils/errors';
@@ -1,7 +1,21 @@
+export type PropertyType = 'apartment' | 'independent-house' | 'villa';
+
+export type FurnishingStatus = 'unfurnished' | 'semi-furnished' | 'furnished';
+
+// Square feet, square metres, or square yards (gaj)
+export type AreaUnit = 'sqft' | 'sqm' | 'sqyd';
+
 export interface HouseFeatures {
   size: number;
+  carpetArea: number;
+  // Unit of size and carpet area; absent means square feet
+  areaUnit?: AreaUnit;
   bedrooms: number;
   bathrooms: number;
+  propertyType: PropertyType;
+  floor: number;
+  totalFloors: number;
+  furnishing: FurnishingStatus;
   location: string;
   city: string;
   state: string;
@@ -9,15 +23,340 @@ export interface HouseFeatures {
   yearBuilt: number;
   hasGarage: boolean;
   hasPool: boolean;
+  hasLift: boolean;
+  hasPowerBackup: boolean;
+  isGatedSociety: boolean;
+  isReraRegistered: boolean;
 }
 
 export interface PredictionResult {
   price: number;
+  low: number;
+  high: number;
+  // Already lowered for inputs unlike the training listings; see novelty
   confidence: number;
+  adjustments: MarketAdjustment[];
+  novelty?: NoveltyAssessment;
+}
+
+// How far a property is from the listings its model was trained on: 0 (typical) to 100
+// (nothing like them), with the reasons behind the score
+export interface NoveltyAssessment {
+  score: number;
+  reasons: string[];
+}
+
+export interface MarketAdjustment {
+  label: string;
+  multiplier: number;
+  detail?: string;
+}
+
+export interface FeatureContribution {
+  feature: keyof HouseFeatures;
+  value: number;
+}
+
+export interface AppliedAdjustment extends MarketAdjustment {
+  value: number;
+}
+
+export interface PriceExplanation {
+  baseValue: number;
+  contributions: FeatureContribution[];
+  modelPrice: number;
+  adjustments: AppliedAdjustment[];
+  finalPrice: number;
+}
+
+export interface Comparable {
+  features: HouseFeatures;
+  price: number;
+  pricePerSqFt: number;
+  distance: number;
+}
+
+export interface ComparablesResult {
+  comparables: Comparable[];
+  estimate: number | null;
+}
+
+// A validation problem tied to the form field it concerns
+export interface FieldIssue {
+  field: keyof HouseFeatures;
+  message: string;
+}
+
+// Errors block a valuation; warnings flag inputs the model is likely to value poorly
+export interface FeatureValidation {
+  errors: FieldIssue[];
+  warnings: FieldIssue[];
+}
+
+export interface TrainingExample {
+  features: HouseFeatures;
+  price: number;
+}
+
+export interface DatasetRowError {
+  row: number;
+  message: string;
+}
+
+export interface DatasetImportResult {
+  examples: TrainingExample[];
+  errors: DatasetRowError[];
+  totalRows: number;
+}
+
+export interface RegressionMetrics {
+  count: number;
+  mae: number;
+  rmse: number;
+  mape: number;
+  // null when the listings are too few or too alike to measure explained variance
+  r2: number | null;
+}
+
+export interface EvaluationReport {
+  evaluatedAt: string;
+  overall: RegressionMetrics;
+  byLocation: { [location: string]: RegressionMetrics };
+  byState: { [state: string]: RegressionMetrics };
+  byPriceBand: { [band: string]: RegressionMetrics };
+}
+
+export interface MetricComparison {
+  metric: keyof Omit<RegressionMetrics, 'count'>;
+  baseline: number | null;
+  candidate: number | null;
+  improved: boolean;
+}
+
+// Standardization of one numeric feature, fitted to the training set.
+// min and max record the range the model has actually seen.
+export interface FeatureScaler {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+// Transforms fitted at training time and stored with the model, so inference matches training
+export interface Preprocessing {
+  features: { [feature: string]: FeatureScaler };
+  // The network predicts standardized log(price)
+  target: { mean: number; std: number };
+}
+
+// One hidden dense layer, followed by dropout when the rate is above zero
+export interface HiddenLayerConfig {
+  units: number;
+  dropout: number;
+}
+
+// Network architecture and fit options, set in the training console
+export interface Hyperparameters {
+  layers: HiddenLayerConfig[];
+  learningRate: number;
+  epochs: number;
+  batchSize: number;
+  earlyStopping: {
+    enabled: boolean;
+    // Epochs without a lower validation loss before training stops
+    patience: number;
+  };
+}
+
+// Running costs assumed when turning gross rent into net rental income
+export interface YieldAssumptions {
+  // Maintenance, repairs, society charges and property tax, as a percentage of the annual rent
+  maintenancePercent: number;
+  // Months a year the property is expected to stand empty
+  vacancyMonths: number;
 }
 
-export interface LocationMultiplier {
-  [key: string]: {
-    [key: string]: number;
+export interface RentalYield {
+  monthlyRent: number;
+  annualRent: number;
+  vacancyLoss: number;
+  maintenanceCost: number;
+  netAnnualIncome: number;
+  grossYield: number;
+  netYield: number;
+  priceToRent: number;
+}
+
+// Home-loan terms that turn a price into a down payment and monthly instalments (EMIs)
+export interface LoanTerms {
+  downPaymentPercent: number;
+  // Annual interest rate, in percent
+  annualRate: number;
+  tenureYears: number;
+}
+
+// Principal repaid and interest paid during one year of a loan, and the balance left at its end
+export interface AmortizationYear {
+  year: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+export interface LoanSummary {
+  price: number;
+  downPayment: number;
+  loanAmount: number;
+  emi: number;
+  totalInterest: number;
+  totalPayment: number;
+  schedule: AmortizationYear[];
+}
+
+// How much of a buyer's income can go on the EMI
+export interface AffordabilityInputs {
+  monthlyIncome: number;
+  // Share of monthly income lenders allow for the EMI, in percent
+  emiRatioPercent: number;
+}
+
+export interface Affordability {
+  maxEmi: number;
+  maxLoanAmount: number;
+  // Infinity when the down payment covers the whole price
+  maxPrice: number;
+}
+
+// What a model predicts: the sale price, or the monthly rent
+export type ValuationTarget = 'price' | 'rent';
+
+export interface ModelMetadata {
+  schemaVersion: number;
+  // Absent on models stored before the rent model existed, which all predict price
+  target?: ValuationTarget;
+  // Country a per-country model was trained for; absent on the default model
+  country?: string;
+  preprocessing: Preprocessing;
+  hyperparameters?: Hyperparameters;
+  trainedAt: string;
+  trainingSource: 'dataset' | 'synthetic';
+  trainingSize: number;
+  epochsTrained?: number;
+  evaluation?: EvaluationReport;
+  baseline?: number[];
+  // Column-wise standard deviation of the training inputs, next to baseline (their mean)
+  inputSpread?: number[];
+}
+
+// A model trained in the training console, waiting to be promoted or discarded
+export interface CandidateModel {
+  metadata: ModelMetadata;
+  // The active model measured on the same held-out listings, or null when there is none
+  baseline: EvaluationReport | null;
+  better: boolean;
+}
+
+export interface SerializedModel {
+  modelFileName: string;
+  modelJSON: string;
+  weightsFileName: string;
+  weightData: ArrayBuffer;
+}
+
+export interface TrainingProgress {
+  // Identifies the training run, so a cancel request can target it alone
+  trainingId: number;
+  epoch: number;
+  totalEpochs: number;
+  loss: number;
+  valLoss?: number;
+}
+
+export interface TrainingDataSource {
+  source: 'dataset' | 'synthetic';
+  size: number;
+}
+
+// Listings a model learns from: the imported ones, or synthetic ones when none were imported
+export interface TrainingListings {
+  examples: TrainingExample[];
+  source: TrainingDataSource['source'];
+}
+
+export interface CityConfig {
+  name: string;
+  aliases: string[];
+  premium: number;
+}
+
+export interface StateConfig {
+  name: string;
+  aliases: string[];
+  embedding: number[];
+  priceMultiplier: number;
+  cities: CityConfig[];
+}
+
+export interface CountryConfig {
+  name: string;
+  aliases: string[];
+  // ISO 4217 code and the locale used to format prices, e.g. INR and en-IN
+  currency: string;
+  locale: string;
+  // Unit listings in this country usually quote areas in
+  areaUnit: AreaUnit;
+  // Price level relative to India in local currency, used for synthetic training prices
+  priceMultiplier: number;
+  states: StateConfig[];
+}
+
+export interface LocationRegistry {
+  defaults: {
+    embedding: number[];
+    priceMultiplier: number;
+    premium: number;
   };
-}
\ No newline at end of file
+  countries: CountryConfig[];
+}
+export interface MarketIndexPoint {
+  date: string;
+  value: number;
+}
+
+export interface MarketIndexSeries {
+  state?: string;
+  city?: string;
+  points: MarketIndexPoint[];
+}
+
+export interface MarketIndex {
+  // Country whose prices the index tracks; absent means the default country
+  country?: string;
+  baseDate: string;
+  series: MarketIndexSeries[];
+}
+
+export interface MarketSettings {
+  enabled: boolean;
+  valuationDate: string | null;
+}
+
+export interface MarketIndexInfo extends MarketSettings {
+  source: 'bundled' | 'imported';
+  baseDate: string;
+  firstDate: string;
+  lastDate: string;
+  seriesCount: number;
+}
+
+export type ModelVersion = Pick<ModelMetadata, 'trainedAt' | 'trainingSource' | 'trainingSize'>;
+
+export interface SavedValuation {
+  id: string;
+  name: string;
+  savedAt: string;
+  features: HouseFeatures;
+  result: PredictionResult;
+  market: MarketSettings;
+  model: ModelVersion | null;
+}
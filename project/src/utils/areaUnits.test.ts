@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { convertArea, parseAreaUnit, toSquareFeet } from './areaUnits';
+import { createDefaultFeatures } from './featureSchema';
+
+describe('convertArea', () => {
+  it('converts between square feet, metres and yards', () => {
+    expect(convertArea(100, 'sqm', 'sqft')).toBeCloseTo(1076.39, 2);
+    expect(convertArea(900, 'sqft', 'sqyd')).toBe(100);
+    expect(convertArea(convertArea(120, 'sqyd', 'sqm'), 'sqm', 'sqyd')).toBeCloseTo(120, 10);
+  });
+});
+
+describe('toSquareFeet', () => {
+  it('converts both areas and leaves square-foot listings untouched', () => {
+    const inFeet = createDefaultFeatures();
+    expect(toSquareFeet(inFeet)).toBe(inFeet);
+
+    const inMetres = { ...inFeet, size: 100, carpetArea: 80, areaUnit: 'sqm' as const };
+    const converted = toSquareFeet(inMetres);
+    expect(converted.size).toBeCloseTo(1076.39, 2);
+    expect(converted.carpetArea).toBeCloseTo(861.11, 2);
+    expect(converted.areaUnit).toBe('sqft');
+  });
+});
+
+describe('parseAreaUnit', () => {
+  it('recognises common spellings, including gaj', () => {
+    expect(parseAreaUnit(' Sq Ft ')).toBe('sqft');
+    expect(parseAreaUnit('m2')).toBe('sqm');
+    expect(parseAreaUnit('Gaj')).toBe('sqyd');
+    expect(parseAreaUnit('acres')).toBeUndefined();
+  });
+
+  it('ignores names of inherited object properties', () => {
+    expect(parseAreaUnit('constructor')).toBeUndefined();
+    expect(parseAreaUnit('toString')).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import type { AreaUnit, HouseFeatures } from '../types';
+
+export const AREA_UNITS: AreaUnit[] = ['sqft', 'sqm', 'sqyd'];
+
+export const AREA_UNIT_LABELS: Record<AreaUnit, string> = {
+  sqft: 'sq ft',
+  sqm: 'sq m',
+  sqyd: 'sq yd (gaj)'
+};
+
+// Square feet in one unit of each area unit
+const SQUARE_FEET_PER_UNIT: Record<AreaUnit, number> = {
+  sqft: 1,
+  sqm: 10.7639,
+  sqyd: 9
+};
+
+// Spellings seen in listing exports, mapped onto the units above
+const AREA_UNIT_ALIASES = new Map<string, AreaUnit>([
+  ['sqft', 'sqft'],
+  ['sq ft', 'sqft'],
+  ['sq.ft', 'sqft'],
+  ['sq. ft.', 'sqft'],
+  ['square feet', 'sqft'],
+  ['ft2', 'sqft'],
+  ['sqm', 'sqm'],
+  ['sq m', 'sqm'],
+  ['sq.m', 'sqm'],
+  ['square metres', 'sqm'],
+  ['square meters', 'sqm'],
+  ['m2', 'sqm'],
+  ['sqyd', 'sqyd'],
+  ['sq yd', 'sqyd'],
+  ['sq.yd', 'sqyd'],
+  ['square yards', 'sqyd'],
+  ['gaj', 'sqyd'],
+  ['gaz', 'sqyd']
+]);
+
+// Convert an area between units
+export const convertArea = (value: number, from: AreaUnit, to: AreaUnit) => {
+  return value * SQUARE_FEET_PER_UNIT[from] / SQUARE_FEET_PER_UNIT[to];
+};
+
+// Unit of a property's areas; older listings without one are in square feet
+export const getAreaUnit = (features: HouseFeatures): AreaUnit => features.areaUnit ?? 'sqft';
+
+// The same property with its areas in square feet, the unit models are trained on
+export const toSquareFeet = (features: HouseFeatures): HouseFeatures => {
+  const unit = getAreaUnit(features);
+  if (unit === 'sqft') return features;
+  return {
+    ...features,
+    size: convertArea(features.size, unit, 'sqft'),
+    carpetArea: convertArea(features.carpetArea, unit, 'sqft'),
+    areaUnit: 'sqft'
+  };
+};
+
+// Area unit named by a dataset cell, or undefined when it is not recognised
+export const parseAreaUnit = (text: string): AreaUnit | undefined => {
+  return AREA_UNIT_ALIASES.get(text.trim().toLowerCase());
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import type { PredictionResult, Preprocessing } from '../types';
+import { valueProperties } from './batch';
+import { importPropertiesFromCSV } from './dataset';
+
+const preprocessingUpTo = (maxSize: number): Preprocessing => ({
+  features: { size: { mean: 1000, std: 300, min: 400, max: maxSize } },
+  target: { mean: 15, std: 1 }
+});
+
+describe('valueProperties', () => {
+  it('checks each row against the model for its country once the models are ready', async () => {
+    const { records } = importPropertiesFromCSV([
+      'size,area_unit,bedrooms,bathrooms,city,state,country,year_built',
+      '3000,sqft,3,3,Pune,Maharashtra,India,2015',
+      '3000,sqft,3,3,London,England,United Kingdom,2015'
+    ].join('\n'));
+
+    let modelsReady = false;
+    const predict = async (featuresList: unknown[]) => {
+      modelsReady = true;
+      return featuresList.map(() => ({ price: 1 }) as PredictionResult);
+    };
+    const rows = await valueProperties(records, predict, country => {
+      if (!modelsReady) return null;
+      return preprocessingUpTo(country === 'India' ? 2000 : 4000);
+    });
+
+    expect(rows.map(row => row.error)).toEqual([undefined, undefined]);
+    expect(rows[0].warnings.some(warning => warning.includes('outside the 400–2000 range'))).toBe(true);
+    expect(rows[1].warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import type { HouseFeatures, PredictionResult, Preprocessing } from '../types';
+import type { PropertyRecord } from './dataset';
+import { validateHouseFeatures } from './validation';
+import { formatCSV } from './csv';
+
+export interface BatchRowResult {
+  record: PropertyRecord;
+  result?: PredictionResult;
+  error?: string;
+  warnings: string[];
+}
+
+// Columns appended to the uploaded CSV
+const RESULT_COLUMNS = ['predicted_price', 'price_low', 'price_high', 'confidence', 'novelty', 'adjustments', 'warnings', 'error'];
+
+// "City premium ×1.200; Market index: Mumbai ×1.181" summary of what was applied
+const formatAdjustments = (result: PredictionResult) => {
+  return result.adjustments.map(step => `${step.label} ×${step.multiplier.toFixed(3)}`).join('; ');
+};
+
+// Values many properties at once: the model worker in the app, the model directly in the CLI
+export type PricePredictor = (featuresList: HouseFeatures[]) => Promise<PredictionResult[]>;
+
+// Preprocessing of the model that values listings in a country, or null while none is known;
+// the model worker answers asynchronously, the CLI directly
+export type PreprocessingLookup = (country: string) => Preprocessing | null | undefined | Promise<Preprocessing | null | undefined>;
+
+// Validate every row, then value all valid rows in one batched model call. Once the models
+// have been trained or loaded, each valued row is checked against the preprocessing of the
+// model for its country, adding warnings for values outside that model's training range.
+export const valueProperties = async (
+  records: PropertyRecord[],
+  predict: PricePredictor,
+  getPreprocessing: PreprocessingLookup = () => null
+): Promise<BatchRowResult[]> => {
+  const toMessages = (warnings: { message: string }[]) => warnings.map(warning => warning.message);
+  const rows: BatchRowResult[] = records.map(record => {
+    const { errors, warnings } = validateHouseFeatures(record.features);
+    return errors.length > 0
+      ? { record, error: errors.map(error => error.message).join('; '), warnings: toMessages(warnings) }
+      : { record, warnings: toMessages(warnings) };
+  });
+
+  const valid = rows.filter(row => !row.error);
+  const results = valid.length > 0 ? await predict(valid.map(row => row.record.features)) : [];
+
+  const countries = Array.from(new Set(valid.map(row => row.record.features.country)));
+  const preprocessing = new Map(await Promise.all(
+    countries.map(async country => [country, await getPreprocessing(country) ?? null] as const)
+  ));
+  valid.forEach((row, i) => {
+    row.result = results[i];
+    const { features } = row.record;
+    row.warnings = toMessages(validateHouseFeatures(features, preprocessing.get(features.country)).warnings);
+  });
+
+  return rows;
+};
+
+// The uploaded CSV with price, range, confidence, novelty, adjustment, warning and error columns added.
+// Novelty reasons join the row's warnings.
+export const batchResultsToCSV = (headers: string[], rows: BatchRowResult[]) => {
+  return formatCSV([
+    [...headers, ...RESULT_COLUMNS],
+    ...rows.map(({ record, result, error, warnings }) => [
+      ...headers.map(header => record.values[header] ?? ''),
+      result?.price ?? '',
+      result?.low ?? '',
+      result?.high ?? '',
+      result?.confidence ?? '',
+      result?.novelty?.score ?? '',
+      result ? formatAdjustments(result) : '',
+      [...warnings, ...result?.novelty?.reasons ?? []].join('; '),
+      error ?? ''
+    ])
+  ]);
+};
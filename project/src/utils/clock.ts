@@ -0,0 +1,10 @@
+// The clock behind training dates, synthetic ages, the latest accepted year built and the default
+// valuation month. It can be replaced so that training runs and validation can be reproduced.
+let clock: () => Date = () => new Date();
+
+export const now = () => clock();
+
+// Use a fixed or custom clock, or the system clock again with null
+export const setClock = (next: (() => Date) | null) => {
+  clock = next ?? (() => new Date());
+};
@@ -0,0 +1,50 @@
+import type { Comparable, ComparablesResult, TrainingExample } from '../types';
+
+export const DEFAULT_COMPARABLES = 5;
+
+// Keeps a zero distance (an identical listing) from producing an infinite weight
+const DISTANCE_EPSILON = 1e-3;
+
+const euclideanDistance = (a: number[], b: number[]) => {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+};
+
+// Find the k listings closest to the target in model-input space and estimate a price
+// from their inverse-distance-weighted price per sq ft
+export const findComparables = (
+  target: number[],
+  targetSize: number,
+  listings: { vector: number[]; example: TrainingExample }[],
+  k: number = DEFAULT_COMPARABLES
+): ComparablesResult => {
+  const comparables: Comparable[] = listings
+    .map(({ vector, example }) => ({
+      features: example.features,
+      price: example.price,
+      pricePerSqFt: example.price / example.features.size,
+      distance: euclideanDistance(target, vector)
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k);
+
+  if (comparables.length === 0) {
+    return { comparables, estimate: null };
+  }
+
+  let weightedPricePerSqFt = 0;
+  let totalWeight = 0;
+  comparables.forEach(comparable => {
+    const weight = 1 / (comparable.distance + DISTANCE_EPSILON);
+    weightedPricePerSqFt += weight * comparable.pricePerSqFt;
+    totalWeight += weight;
+  });
+
+  return { comparables, estimate: Math.round((weightedPricePerSqFt / totalWeight) * targetSize) };
+};
+
+// Mix the neural network's price with the comparables estimate; weight is the share given to comps
+export const blendEstimates = (modelPrice: number, compsEstimate: number | null, weight: number) => {
+  if (compsEstimate === null) return modelPrice;
+  const share = Math.min(1, Math.max(0, weight));
+  return Math.round(modelPrice * (1 - share) + compsEstimate * share);
+};
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { setClock } from './clock';
+import { importDatasetFromCSV, importPropertiesFromCSV } from './dataset';
+import { validateHouseFeatures } from './validation';
+
+const HEADER = 'size,bedrooms,bathrooms,city,state,price,year_built,property_type,furnishing';
+
+describe('importDatasetFromCSV', () => {
+  it('reads prices in any supported currency', () => {
+    const { examples, errors } = importDatasetFromCSV([
+      HEADER,
+      '1000,2,2,Pune,Maharashtra,"₹80,00,000",2015,flat,semi',
+      '1000,2,2,Pune,Maharashtra,"£350,000",2015,flat,semi',
+      '1000,2,2,Pune,Maharashtra,"AED 1,200,000",2015,flat,semi'
+    ].join('\n'));
+    expect(errors).toEqual([]);
+    expect(examples.map(example => example.price)).toEqual([8000000, 350000, 1200000]);
+  });
+
+  it('rejects types that only match inherited object properties', () => {
+    const { examples, errors } = importDatasetFromCSV([
+      HEADER,
+      '1000,2,2,Pune,Maharashtra,8000000,2015,constructor,semi',
+      '1000,2,2,Pune,Maharashtra,8000000,2015,flat,toString'
+    ].join('\n'));
+    expect(examples).toEqual([]);
+    expect(errors.map(error => error.message)).toEqual([
+      'Unknown property type "constructor"',
+      'Unknown furnishing status "toString"'
+    ]);
+  });
+
+  it('reports a missing year built instead of assuming this year', () => {
+    const { examples, errors } = importDatasetFromCSV([HEADER, '1000,2,2,Pune,Maharashtra,8000000,,flat,semi'].join('\n'));
+    expect(examples).toEqual([]);
+    expect(errors).toEqual([{ row: 2, message: 'Missing year built' }]);
+  });
+
+  it('rejects a given carpet area that is not positive', () => {
+    const { examples, errors } = importDatasetFromCSV([
+      `${HEADER},carpet_area`,
+      '1000,2,2,Pune,Maharashtra,8000000,2015,flat,semi,0',
+      '1000,2,2,Pune,Maharashtra,8000000,2015,flat,semi,-700',
+      '1000,2,2,Pune,Maharashtra,8000000,2015,flat,semi,'
+    ].join('\n'));
+    expect(examples).toHaveLength(1);
+    expect(errors.map(error => error.message)).toEqual(['Invalid carpet area "0"', 'Invalid carpet area "-700"']);
+  });
+});
+
+describe('validateHouseFeatures', () => {
+  afterEach(() => setClock(null));
+
+  it('accepts properties under construction but not years far ahead of the clock', () => {
+    setClock(() => new Date('2025-06-15T00:00:00Z'));
+    const { records } = importPropertiesFromCSV([
+      'size,bedrooms,bathrooms,city,state,year_built',
+      '1000,2,2,Pune,Maharashtra,2030',
+      '1000,2,2,Pune,Maharashtra,3000'
+    ].join('\n'));
+    expect(validateHouseFeatures(records[0].features).errors).toEqual([]);
+    expect(validateHouseFeatures(records[1].features).errors).toEqual([
+      { field: 'yearBuilt', message: 'Year built cannot be later than 2030' }
+    ]);
+  });
+
+  it('rejects a negative carpet area but treats zero as not given', () => {
+    const { records } = importPropertiesFromCSV(['size,bedrooms,bathrooms,city,state,year_built', '1000,2,2,Pune,Maharashtra,2015'].join('\n'));
+    const features = records[0].features;
+    expect(validateHouseFeatures({ ...features, carpetArea: 0 }).errors).toEqual([]);
+    expect(validateHouseFeatures({ ...features, carpetArea: -500 }).errors).toEqual([
+      { field: 'carpetArea', message: 'Carpet area cannot be negative' }
+    ]);
+  });
+});
+
+describe('importPropertiesFromCSV', () => {
+  it('leaves a missing year built for validation to report', () => {
+    const { records } = importPropertiesFromCSV(['size,bedrooms,bathrooms,city,state', '1000,2,2,Pune,Maharashtra'].join('\n'));
+    const { errors } = validateHouseFeatures(records[0].features);
+    expect(errors.map(error => error.field)).toEqual(['yearBuilt']);
+  });
+});
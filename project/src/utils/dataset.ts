@@ -0,0 +1,383 @@
+import type {
+  HouseFeatures,
+  TrainingExample,
+  DatasetRowError,
+  DatasetImportResult,
+  PropertyType,
+  FurnishingStatus,
+  ValuationTarget,
+  AreaUnit
+} from '../types';
+import { canonicalizeLocation, getCountrySettings, DEFAULT_COUNTRY } from './locations';
+import { AREA_UNITS, parseAreaUnit, toSquareFeet } from './areaUnits';
+import { parseCSV } from './csv';
+import { LOCATION_TYPES } from './featureSchema';
+import { EARLIEST_YEAR_BUILT, getLatestYearBuilt } from './validation';
+
+export type DatasetField = keyof HouseFeatures | 'price';
+
+// Fewest listings a model trains on, so its held-out set keeps at least two for R²
+export const MIN_TRAINING_EXAMPLES = 10;
+
+// Maps each dataset field to the column name that holds it in the source file
+export type ColumnMapping = Partial<Record<DatasetField, string>>;
+
+// Column names we recognise out of the box (compared case-insensitively)
+const DEFAULT_COLUMN_ALIASES: Record<DatasetField, string[]> = {
+  size: ['size', 'area', 'sqft', 'sq_ft', 'area_sqft', 'built_up_area', 'super_built_up_area'],
+  carpetArea: ['carpetarea', 'carpet_area', 'carpet'],
+  areaUnit: ['areaunit', 'area_unit', 'unit', 'size_unit'],
+  bedrooms: ['bedrooms', 'beds', 'bhk', 'bedroom'],
+  bathrooms: ['bathrooms', 'baths', 'bathroom'],
+  propertyType: ['propertytype', 'property_type', 'type'],
+  floor: ['floor', 'floor_number', 'floor_no'],
+  totalFloors: ['totalfloors', 'total_floors', 'floors'],
+  furnishing: ['furnishing', 'furnishing_status', 'furnished'],
+  location: ['location', 'area_type', 'locality_type'],
+  city: ['city', 'town'],
+  state: ['state', 'province', 'region'],
+  country: ['country'],
+  yearBuilt: ['yearbuilt', 'year_built', 'year', 'construction_year'],
+  hasGarage: ['hasgarage', 'has_garage', 'garage', 'parking'],
+  hasPool: ['haspool', 'has_pool', 'pool', 'swimming_pool'],
+  hasLift: ['haslift', 'has_lift', 'lift', 'elevator'],
+  hasPowerBackup: ['haspowerbackup', 'has_power_backup', 'power_backup'],
+  isGatedSociety: ['isgatedsociety', 'is_gated_society', 'gated_society', 'gated'],
+  isReraRegistered: ['isreraregistered', 'is_rera_registered', 'rera_registered', 'rera'],
+  price: ['price', 'sale_price', 'sold_price', 'amount']
+};
+
+// Rental datasets carry the monthly rent where sales datasets carry the price
+const RENT_COLUMN_ALIASES = ['rent', 'monthly_rent', 'rent_per_month', 'rent_amount', 'monthly_rental'];
+
+const REQUIRED_FIELDS: DatasetField[] = ['size', 'bedrooms', 'bathrooms', 'city', 'state', 'price'];
+
+// Properties to be valued do not need a price column
+const REQUIRED_PROPERTY_FIELDS: DatasetField[] = ['size', 'bedrooms', 'bathrooms', 'city', 'state'];
+
+// Spellings seen in listing exports, mapped onto the schema's values. Maps rather than
+// objects, so a value like "constructor" does not match an inherited property.
+const PROPERTY_TYPE_ALIASES = new Map<string, PropertyType>([
+  ['apartment', 'apartment'],
+  ['flat', 'apartment'],
+  ['builder floor', 'apartment'],
+  ['independent-house', 'independent-house'],
+  ['independent house', 'independent-house'],
+  ['house', 'independent-house'],
+  ['villa', 'villa'],
+  ['bungalow', 'villa']
+]);
+
+const FURNISHING_ALIASES = new Map<string, FurnishingStatus>([
+  ['unfurnished', 'unfurnished'],
+  ['no', 'unfurnished'],
+  ['semi-furnished', 'semi-furnished'],
+  ['semi furnished', 'semi-furnished'],
+  ['semi', 'semi-furnished'],
+  ['furnished', 'furnished'],
+  ['fully furnished', 'furnished'],
+  ['yes', 'furnished']
+]);
+
+// Match source columns to dataset fields, explicit mapping first, then aliases.
+// For rental datasets the 'price' field is read from the rent column.
+export const resolveColumnMapping = (
+  headers: string[],
+  mapping: ColumnMapping = {},
+  target: ValuationTarget = 'price'
+): ColumnMapping => {
+  const normalizedHeaders = headers.map(h => h.trim().toLowerCase());
+  const resolved: ColumnMapping = {};
+
+  (Object.keys(DEFAULT_COLUMN_ALIASES) as DatasetField[]).forEach(field => {
+    const explicit = mapping[field];
+    if (explicit && headers.includes(explicit)) {
+      resolved[field] = explicit;
+      return;
+    }
+    const aliases = field === 'price' && target === 'rent' ? RENT_COLUMN_ALIASES : DEFAULT_COLUMN_ALIASES[field];
+    const index = normalizedHeaders.findIndex(h => aliases.includes(h));
+    if (index !== -1) {
+      resolved[field] = headers[index];
+    }
+  });
+
+  return resolved;
+};
+
+// Numbers as exports write them: with thousands separators and the currency of any supported country
+const parseNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return NaN;
+  const cleaned = value.replace(/[,₹$£€\s]|aed/gi, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+const parseBoolean = (value: unknown): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value > 0;
+  if (typeof value !== 'string') return false;
+  return ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+};
+
+const parseText = (value: unknown): string => {
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+// Floors are often written as "Ground" or "G"
+const parseFloor = (value: unknown): number => {
+  const text = parseText(value).toLowerCase();
+  if (text === '') return 0;
+  if (text === 'g' || text.startsWith('ground')) return 0;
+  return parseNumber(text);
+};
+
+const parseOptionalNumber = (value: unknown, fallback: number): number => {
+  return parseText(value) === '' ? fallback : parseNumber(value);
+};
+
+type FieldReader = (field: DatasetField) => unknown;
+
+const createReader = (record: Record<string, unknown>, mapping: ColumnMapping): FieldReader => {
+  return field => mapping[field] ? record[mapping[field] as string] : undefined;
+};
+
+// Parse the property fields of one record without validating them
+const readFeatures = (get: FieldReader) => {
+  const rawYear = get('yearBuilt');
+  const rawType = parseText(get('propertyType')).toLowerCase();
+  const rawFurnishing = parseText(get('furnishing')).toLowerCase();
+  const floor = parseFloor(get('floor'));
+  const country = parseText(get('country')) || DEFAULT_COUNTRY;
+  const rawUnit = parseText(get('areaUnit'));
+  return {
+    size: parseNumber(get('size')),
+    carpetArea: parseOptionalNumber(get('carpetArea'), 0),
+    // Without a unit column, areas are in the unit the country usually quotes. An unknown
+    // unit is kept as written so validation can report it.
+    areaUnit: rawUnit === '' ? getCountrySettings(country).areaUnit : parseAreaUnit(rawUnit) ?? rawUnit as AreaUnit,
+    bedrooms: parseNumber(get('bedrooms')),
+    bathrooms: parseNumber(get('bathrooms')),
+    propertyType: rawType === '' ? 'apartment' : PROPERTY_TYPE_ALIASES.get(rawType),
+    floor,
+    // Without a building height, assume the listing is on the top floor
+    totalFloors: parseOptionalNumber(get('totalFloors'), Math.max(floor, 1)),
+    furnishing: rawFurnishing === '' ? 'unfurnished' : FURNISHING_ALIASES.get(rawFurnishing),
+    yearBuilt: parseText(rawYear) === '' ? NaN : parseNumber(rawYear),
+    city: parseText(get('city')),
+    state: parseText(get('state')),
+    country,
+    location: parseText(get('location')).toLowerCase() || 'suburban',
+    hasGarage: parseBoolean(get('hasGarage')),
+    hasPool: parseBoolean(get('hasPool')),
+    hasLift: parseBoolean(get('hasLift')),
+    hasPowerBackup: parseBoolean(get('hasPowerBackup')),
+    isGatedSociety: parseBoolean(get('isGatedSociety')),
+    isReraRegistered: parseBoolean(get('isReraRegistered'))
+  };
+};
+
+// Finish parsed fields into HouseFeatures, mapping aliases such as "Bombay" or "MH"
+// onto the registry's canonical names. Unknown types and a missing year are left for
+// validation to report.
+const toHouseFeatures = (parsed: ReturnType<typeof readFeatures>): HouseFeatures => {
+  const canonical = canonicalizeLocation(parsed.city, parsed.state, parsed.country);
+  return { ...parsed, ...canonical } as HouseFeatures;
+};
+
+// Convert one raw record into a training example, collecting every problem found
+const recordToExample = (
+  record: Record<string, unknown>,
+  mapping: ColumnMapping,
+  row: number,
+  target: ValuationTarget
+): { example?: TrainingExample; errors: DatasetRowError[] } => {
+  const errors: DatasetRowError[] = [];
+  const get = createReader(record, mapping);
+  const fail = (message: string) => errors.push({ row, message });
+
+  const parsed = readFeatures(get);
+  const price = parseNumber(get('price'));
+  const { size, bedrooms, bathrooms, yearBuilt, city, state, location, propertyType, furnishing, floor, totalFloors, areaUnit, carpetArea } = parsed;
+
+  if (!(size > 0)) fail(`Invalid size "${parseText(get('size'))}"`);
+  if (!(bedrooms > 0)) fail(`Invalid number of bedrooms "${parseText(get('bedrooms'))}"`);
+  if (!(bathrooms > 0)) fail(`Invalid number of bathrooms "${parseText(get('bathrooms'))}"`);
+  if (!(price > 0)) fail(`Invalid ${target} "${parseText(get('price'))}"`);
+  if (!AREA_UNITS.includes(areaUnit)) fail(`Unknown area unit "${areaUnit}"`);
+  if (!city) fail('Missing city');
+  if (!state) fail('Missing state');
+  if (!LOCATION_TYPES.includes(location)) fail(`Unknown area type "${location}"`);
+  if (!propertyType) fail(`Unknown property type "${parseText(get('propertyType'))}"`);
+  if (!furnishing) fail(`Unknown furnishing status "${parseText(get('furnishing'))}"`);
+  if (parseText(get('carpetArea')) !== '' && !(carpetArea > 0)) fail(`Invalid carpet area "${parseText(get('carpetArea'))}"`);
+  if (!(floor >= 0) || !(totalFloors >= 1)) fail('Invalid floor or total floors');
+  else if (floor > totalFloors) fail(`Floor ${floor} is above the building's ${totalFloors} floors`);
+  if (parseText(get('yearBuilt')) === '') fail('Missing year built');
+  else if (Number.isNaN(yearBuilt)) fail(`Invalid year built "${parseText(get('yearBuilt'))}"`);
+  else if (yearBuilt < EARLIEST_YEAR_BUILT || yearBuilt > getLatestYearBuilt()) {
+    fail(`Year built ${yearBuilt} is out of range`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  // Training listings are stored in square feet so comparables can be priced per square foot
+  return { errors, example: { features: toSquareFeet(toHouseFeatures(parsed)), price } };
+};
+
+// Turn a list of raw records into validated training examples
+const recordsToDataset = (
+  records: Record<string, unknown>[],
+  headers: string[],
+  mapping: ColumnMapping,
+  firstRow: number,
+  target: ValuationTarget
+): DatasetImportResult => {
+  const resolved = resolveColumnMapping(headers, mapping, target);
+  const missing = REQUIRED_FIELDS.filter(field => !resolved[field]).map(field => field === 'price' ? target : field);
+
+  if (missing.length > 0) {
+    return {
+      examples: [],
+      errors: [{ row: 0, message: `Missing required column(s): ${missing.join(', ')}` }],
+      totalRows: records.length
+    };
+  }
+
+  const examples: TrainingExample[] = [];
+  const errors: DatasetRowError[] = [];
+
+  records.forEach((record, index) => {
+    const result = recordToExample(record, resolved, index + firstRow, target);
+    errors.push(...result.errors);
+    if (result.example) examples.push(result.example);
+  });
+
+  return { examples, errors, totalRows: records.length };
+};
+
+// Import a dataset from CSV text with a header row; rental datasets are labelled with monthly rent
+export const importDatasetFromCSV = (
+  text: string,
+  mapping: ColumnMapping = {},
+  target: ValuationTarget = 'price'
+): DatasetImportResult => {
+  const [headerRow, ...rows] = parseCSV(text);
+  if (!headerRow) {
+    return { examples: [], errors: [{ row: 0, message: 'The file is empty' }], totalRows: 0 };
+  }
+
+  const headers = headerRow.map(h => h.trim());
+  const records = rows.map(cells =>
+    Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? '']))
+  );
+
+  // Data rows start on line 2 of the file
+  return recordsToDataset(records, headers, mapping, 2, target);
+};
+
+// Import a dataset from a JSON array of objects
+export const importDatasetFromJSON = (
+  text: string,
+  mapping: ColumnMapping = {},
+  target: ValuationTarget = 'price'
+): DatasetImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { examples: [], errors: [{ row: 0, message: 'The file is not valid JSON' }], totalRows: 0 };
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { examples: [], errors: [{ row: 0, message: 'Expected a JSON array of listings' }], totalRows: 0 };
+  }
+
+  const records = parsed.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null);
+  const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+
+  return recordsToDataset(records, headers, mapping, 1, target);
+};
+
+// Import a dataset file, choosing the parser from its extension
+export const importDatasetFile = async (
+  file: File,
+  mapping: ColumnMapping = {},
+  target: ValuationTarget = 'price'
+): Promise<DatasetImportResult> => {
+  const text = await file.text();
+  return file.name.toLowerCase().endsWith('.json')
+    ? importDatasetFromJSON(text, mapping, target)
+    : importDatasetFromCSV(text, mapping, target);
+};
+
+export interface PropertyRecord {
+  row: number;
+  values: Record<string, string>;
+  features: HouseFeatures;
+}
+
+export interface PropertyImport {
+  headers: string[];
+  records: PropertyRecord[];
+  error?: string;
+}
+
+// Turn raw records into properties to value, keeping each record's original values
+const recordsToProperties = (
+  rawRecords: Record<string, string>[],
+  headers: string[],
+  mapping: ColumnMapping,
+  firstRow: number
+): PropertyImport => {
+  const resolved = resolveColumnMapping(headers, mapping);
+  const missing = REQUIRED_PROPERTY_FIELDS.filter(field => !resolved[field]);
+  if (missing.length > 0) {
+    return { headers, records: [], error: `Missing required column(s): ${missing.join(', ')}` };
+  }
+
+  const records = rawRecords.map((values, index) => ({
+    row: index + firstRow,
+    values,
+    features: toHouseFeatures(readFeatures(createReader(values, resolved)))
+  }));
+
+  return { headers, records };
+};
+
+// Read a CSV of properties to value, keeping each row's original cells
+export const importPropertiesFromCSV = (text: string, mapping: ColumnMapping = {}): PropertyImport => {
+  const [headerRow, ...rows] = parseCSV(text);
+  if (!headerRow) {
+    return { headers: [], records: [], error: 'The file is empty' };
+  }
+
+  const headers = headerRow.map(h => h.trim());
+  const records = rows.map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? ''])));
+
+  // Data rows start on line 2 of the file
+  return recordsToProperties(records, headers, mapping, 2);
+};
+
+// Read properties to value from a JSON object or array of objects
+export const importPropertiesFromJSON = (text: string, mapping: ColumnMapping = {}): PropertyImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { headers: [], records: [], error: 'The file is not valid JSON' };
+  }
+
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  const objects = items.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null);
+  if (objects.length === 0) {
+    return { headers: [], records: [], error: 'Expected a JSON object or an array of properties' };
+  }
+
+  const headers = Array.from(new Set(objects.flatMap(object => Object.keys(object))));
+  const records = objects.map(object => Object.fromEntries(headers.map(header => [header, object[header] === undefined ? '' : String(object[header])])));
+
+  return recordsToProperties(records, headers, mapping, 1);
+};
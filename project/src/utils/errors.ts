@@ -0,0 +1,7 @@
+// Raised when model training is stopped by the user before it finishes
+export class TrainingCancelledError extends Error {
+  constructor() {
+    super('Model training was cancelled');
+    this.name = 'TrainingCancelledError';
+  }
+}
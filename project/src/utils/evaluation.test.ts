@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { compareEvaluationReports, computeMetrics, getPriceBand } from './evaluation';
+import type { EvaluationReport } from '../types';
+
+const report = (r2: number | null): EvaluationReport => ({
+  evaluatedAt: '2025-06-15T00:00:00.000Z',
+  overall: { count: 5, mae: 100, rmse: 120, mape: 5, r2 },
+  byLocation: {},
+  byState: {},
+  byPriceBand: {}
+});
+
+describe('computeMetrics', () => {
+  it('measures errors and explained variance', () => {
+    const metrics = computeMetrics([100, 200, 300], [110, 190, 300]);
+    expect(metrics.mae).toBeCloseTo(20 / 3);
+    expect(metrics.mape).toBeCloseTo((10 + 5) / 3);
+    expect(metrics.r2).toBeCloseTo(1 - 200 / 20000);
+  });
+
+  it('leaves R² out for a single listing or listings at one price', () => {
+    expect(computeMetrics([100], [90]).r2).toBeNull();
+    expect(computeMetrics([100, 100], [90, 110]).r2).toBeNull();
+  });
+});
+
+describe('compareEvaluationReports', () => {
+  it('does not count a missing R² as an improvement either way', () => {
+    const r2 = (baseline: number | null, candidate: number | null) => {
+      return compareEvaluationReports(report(baseline), report(candidate)).find(row => row.metric === 'r2')?.improved;
+    };
+    expect(r2(0.8, 0.9)).toBe(true);
+    expect(r2(null, 0.9)).toBe(false);
+    expect(r2(0.8, null)).toBe(false);
+  });
+});
+
+describe('getPriceBand', () => {
+  it('scales the bands to the country\'s price level and currency', () => {
+    expect(getPriceBand(6000000)).toBe('₹50L – ₹1Cr');
+    expect(getPriceBand(30000000)).toBe('Above ₹2Cr');
+    expect(getPriceBand(250000, 'United Kingdom')).toBe('£175K – £350K');
+  });
+});
@@ -0,0 +1,108 @@
+import type { HouseFeatures, RegressionMetrics, EvaluationReport, MetricComparison } from '../types';
+import { getCountryPriceMultiplier } from './locations';
+import { formatCompactPrice } from './priceFormat';
+
+export interface EvaluationSample {
+  features: HouseFeatures;
+  actual: number;
+  predicted: number;
+}
+
+// Upper bounds of the price bands used to break down errors, in rupees at the default price level
+const PRICE_BAND_LIMITS = [5000000, 10000000, 20000000];
+
+// Price bands for a country: the rupee bounds scaled by its price multiplier (as synthetic
+// prices are) and labelled in its currency, e.g. "Under ₹50L" or "£600K – £1.2M"
+export const getPriceBands = (country?: string): { label: string; max: number }[] => {
+  const limits = PRICE_BAND_LIMITS.map(limit => limit * getCountryPriceMultiplier(country));
+  const format = (price: number) => formatCompactPrice(price, country);
+  return [
+    { label: `Under ${format(limits[0])}`, max: limits[0] },
+    ...limits.slice(1).map((max, i) => ({ label: `${format(limits[i])} – ${format(max)}`, max })),
+    { label: `Above ${format(limits[limits.length - 1])}`, max: Infinity }
+  ];
+};
+
+export const getPriceBand = (price: number, country?: string) => {
+  const bands = getPriceBands(country);
+  return (bands.find(band => price < band.max) ?? bands[bands.length - 1]).label;
+};
+
+// MAE, RMSE, MAPE (%) and R² for a set of actual/predicted pairs
+export const computeMetrics = (actual: number[], predicted: number[]): RegressionMetrics => {
+  const count = actual.length;
+  if (count === 0) {
+    return { count: 0, mae: NaN, rmse: NaN, mape: NaN, r2: null };
+  }
+
+  const mean = actual.reduce((sum, value) => sum + value, 0) / count;
+  let absoluteError = 0;
+  let squaredError = 0;
+  let percentageError = 0;
+  let totalVariance = 0;
+
+  actual.forEach((value, i) => {
+    const error = predicted[i] - value;
+    absoluteError += Math.abs(error);
+    squaredError += error * error;
+    percentageError += value !== 0 ? Math.abs(error / value) : 0;
+    totalVariance += (value - mean) ** 2;
+  });
+
+  return {
+    count,
+    mae: absoluteError / count,
+    rmse: Math.sqrt(squaredError / count),
+    mape: (percentageError / count) * 100,
+    // A single listing, or listings all at one price, have no variance to explain
+    r2: count > 1 && totalVariance > 0 ? 1 - squaredError / totalVariance : null
+  };
+};
+
+const metricsByGroup = (samples: EvaluationSample[], groupOf: (sample: EvaluationSample) => string) => {
+  const groups: { [key: string]: EvaluationSample[] } = {};
+  samples.forEach(sample => {
+    const key = groupOf(sample);
+    (groups[key] ??= []).push(sample);
+  });
+
+  return Object.fromEntries(
+    Object.entries(groups).map(([key, group]) => [
+      key,
+      computeMetrics(group.map(s => s.actual), group.map(s => s.predicted))
+    ])
+  );
+};
+
+// Build the full evaluation report for predictions on a held-out set
+export const buildEvaluationReport = (samples: EvaluationSample[]): EvaluationReport => {
+  return {
+    evaluatedAt: new Date().toISOString(),
+    overall: computeMetrics(samples.map(s => s.actual), samples.map(s => s.predicted)),
+    byLocation: metricsByGroup(samples, s => s.features.location),
+    byState: metricsByGroup(samples, s => s.features.state),
+    byPriceBand: metricsByGroup(samples, s => getPriceBand(s.actual, s.features.country))
+  };
+};
+
+// Compare the overall metrics of two reports; lower errors and higher R² count as improvements,
+// and a metric missing from either report counts as no improvement
+export const compareEvaluationReports = (baseline: EvaluationReport, candidate: EvaluationReport): MetricComparison[] => {
+  const metrics: MetricComparison['metric'][] = ['mae', 'rmse', 'mape', 'r2'];
+  return metrics.map(metric => {
+    const before = baseline.overall[metric];
+    const after = candidate.overall[metric];
+    return {
+      metric,
+      baseline: before,
+      candidate: after,
+      improved: before !== null && after !== null && (metric === 'r2' ? after > before : after < before)
+    };
+  });
+};
+
+// True when the candidate improves on the baseline for most overall metrics
+export const isBetterReport = (baseline: EvaluationReport, candidate: EvaluationReport) => {
+  const comparisons = compareEvaluationReports(baseline, candidate);
+  return comparisons.filter(c => c.improved).length > comparisons.length / 2;
+};
@@ -0,0 +1,109 @@
+export interface FeatureGroup<K extends string = string> {
+  feature: K;
+  columns: number[];
+}
+
+export type BatchPredictor = (rows: number[][]) => Promise<number[]>;
+
+// Above this many feature groups exact Shapley values need too many model calls
+const MAX_EXACT_GROUPS = 10;
+const SAMPLED_PERMUTATIONS = 64;
+
+// Build an input row that takes the given groups from `input` and the rest from `baseline`
+const mixRow = (input: number[], baseline: number[], groups: FeatureGroup[], present: boolean[]) => {
+  const row = [...baseline];
+  groups.forEach((group, i) => {
+    if (present[i]) {
+      group.columns.forEach(column => {
+        row[column] = input[column];
+      });
+    }
+  });
+  return row;
+};
+
+const factorial = (n: number): number => (n <= 1 ? 1 : n * factorial(n - 1));
+
+// Exact Shapley values: evaluate every coalition of feature groups in one batch
+const exactShapley = async (input: number[], baseline: number[], groups: FeatureGroup[], predict: BatchPredictor) => {
+  const n = groups.length;
+  const coalitions = 1 << n;
+  const rows = Array.from({ length: coalitions }, (_, mask) =>
+    mixRow(input, baseline, groups, groups.map((_, i) => (mask & (1 << i)) !== 0))
+  );
+  const outputs = await predict(rows);
+
+  const popCount = (mask: number) => mask.toString(2).split('1').length - 1;
+  const weights = Array.from({ length: n }, (_, size) => factorial(size) * factorial(n - size - 1) / factorial(n));
+
+  const values = groups.map((_, i) => {
+    let value = 0;
+    for (let mask = 0; mask < coalitions; mask++) {
+      if (mask & (1 << i)) continue;
+      value += weights[popCount(mask)] * (outputs[mask | (1 << i)] - outputs[mask]);
+    }
+    return value;
+  });
+
+  return { baseValue: outputs[0], values };
+};
+
+// Approximate Shapley values by averaging marginal effects over random feature orderings
+const sampledShapley = async (
+  input: number[],
+  baseline: number[],
+  groups: FeatureGroup[],
+  predict: BatchPredictor,
+  random: () => number
+) => {
+  const n = groups.length;
+  const orders: number[][] = [];
+  const rows: number[][] = [];
+
+  for (let p = 0; p < SAMPLED_PERMUTATIONS; p++) {
+    const order = groups.map((_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    orders.push(order);
+
+    const present = groups.map(() => false);
+    rows.push(mixRow(input, baseline, groups, present));
+    order.forEach(index => {
+      present[index] = true;
+      rows.push(mixRow(input, baseline, groups, present));
+    });
+  }
+
+  const outputs = await predict(rows);
+  const values = groups.map(() => 0);
+
+  orders.forEach((order, p) => {
+    const offset = p * (n + 1);
+    order.forEach((index, step) => {
+      values[index] += (outputs[offset + step + 1] - outputs[offset + step]) / SAMPLED_PERMUTATIONS;
+    });
+  });
+
+  return { baseValue: outputs[0], values };
+};
+
+// Attribute the difference between the prediction for `input` and for `baseline`
+// to each feature group. The contributions sum to f(input) - f(baseline).
+export const computeShapleyValues = async <K extends string>(
+  input: number[],
+  baseline: number[],
+  groups: FeatureGroup<K>[],
+  predict: BatchPredictor,
+  random: () => number = Math.random
+): Promise<{ baseValue: number; contributions: { feature: K; value: number }[] }> => {
+  const { baseValue, values } = groups.length <= MAX_EXACT_GROUPS
+    ? await exactShapley(input, baseline, groups, predict)
+    : await sampledShapley(input, baseline, groups, predict, random);
+
+  return {
+    baseValue,
+    contributions: groups.map((group, i) => ({ feature: group.feature, value: values[i] }))
+  };
+};
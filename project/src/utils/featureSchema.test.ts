@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { HouseFeatures } from '../types';
+import { FEATURE_COLUMNS, INPUT_WIDTH, LOCATION_TYPES, SCALED_FEATURES, featuresToVector, locationToVector } from './featureSchema';
+import type { FeatureScalers } from './featureSchema';
+
+const house: HouseFeatures = {
+  size: 1200,
+  carpetArea: 900,
+  bedrooms: 2,
+  bathrooms: 2,
+  propertyType: 'apartment',
+  floor: 5,
+  totalFloors: 12,
+  furnishing: 'semi-furnished',
+  location: 'urban',
+  city: 'Pune',
+  state: 'Maharashtra',
+  country: 'India',
+  yearBuilt: 2015,
+  hasGarage: true,
+  hasPool: false,
+  hasLift: true,
+  hasPowerBackup: true,
+  isGatedSociety: false,
+  isReraRegistered: true
+};
+
+const scalers = Object.fromEntries(
+  SCALED_FEATURES.map(feature => [feature, { mean: 10, std: 2, min: 0, max: 100 }])
+) as FeatureScalers;
+
+const columnsOf = (vector: number[], feature: keyof HouseFeatures) => {
+  const group = FEATURE_COLUMNS.find(column => column.feature === feature);
+  return (group?.columns ?? []).map(i => vector[i]);
+};
+
+describe('locationToVector', () => {
+  it('one-hot encodes each area type', () => {
+    LOCATION_TYPES.forEach((location, i) => {
+      const vector = locationToVector(location);
+      expect(vector).toHaveLength(LOCATION_TYPES.length);
+      expect(vector[i]).toBe(1);
+      expect(vector.filter(value => value === 1)).toHaveLength(1);
+    });
+  });
+
+  it('encodes an unknown area type as all zeros', () => {
+    expect(locationToVector('coastal')).toEqual([0, 0, 0]);
+  });
+});
+
+describe('featuresToVector', () => {
+  it('produces one value per model input column', () => {
+    expect(featuresToVector(house, scalers)).toHaveLength(INPUT_WIDTH);
+  });
+
+  it('standardizes scaled features with the fitted mean and std', () => {
+    const vector = featuresToVector(house, scalers);
+    expect(columnsOf(vector, 'size')).toEqual([(1200 - 10) / 2]);
+    expect(columnsOf(vector, 'bedrooms')).toEqual([(2 - 10) / 2]);
+    expect(columnsOf(vector, 'totalFloors')).toEqual([(12 - 10) / 2]);
+  });
+
+  it('encodes carpet area as a ratio and amenities as flags', () => {
+    const vector = featuresToVector(house, scalers);
+    expect(columnsOf(vector, 'carpetArea')).toEqual([0.75]);
+    expect(columnsOf(vector, 'hasGarage')).toEqual([1]);
+    expect(columnsOf(vector, 'hasPool')).toEqual([0]);
+    expect(columnsOf(vector, 'location')).toEqual(locationToVector('urban'));
+  });
+});
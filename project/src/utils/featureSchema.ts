@@ -0,0 +1,119 @@
+import type { FurnishingStatus, HouseFeatures, Preprocessing, PropertyType } from '../types';
+import { DEFAULT_COUNTRY, getCountrySettings, getStateEmbedding } from './locations';
+import { toSquareFeet } from './areaUnits';
+
+// Bump whenever the schema changes shape or meaning so stored models are retrained
+export const FEATURE_SCHEMA_VERSION = 3;
+
+export const LOCATION_TYPES = ['urban', 'suburban', 'rural'];
+export const PROPERTY_TYPES: PropertyType[] = ['apartment', 'independent-house', 'villa'];
+export const FURNISHING_TYPES: FurnishingStatus[] = ['unfurnished', 'semi-furnished', 'furnished'];
+
+// Carpet-to-built-up ratio assumed when the carpet area is not known
+export const DEFAULT_CARPET_RATIO = 0.75;
+
+// Blank form values for a new listing, with areas in the unit the country usually quotes
+export const createDefaultFeatures = (country: string = DEFAULT_COUNTRY): HouseFeatures => ({
+  size: 0,
+  carpetArea: 0,
+  areaUnit: getCountrySettings(country).areaUnit,
+  bedrooms: 0,
+  bathrooms: 0,
+  propertyType: 'apartment',
+  floor: 0,
+  totalFloors: 1,
+  furnishing: 'unfurnished',
+  location: 'suburban',
+  city: '',
+  state: '',
+  country,
+  yearBuilt: new Date().getFullYear(),
+  hasGarage: false,
+  hasPool: false,
+  hasLift: false,
+  hasPowerBackup: false,
+  isGatedSociety: false,
+  isReraRegistered: false
+});
+
+// Numeric features standardized with scalers fitted to the training set
+export const SCALED_FEATURES = ['size', 'bedrooms', 'bathrooms', 'yearBuilt', 'floor', 'totalFloors'] as const;
+
+export type ScaledFeature = typeof SCALED_FEATURES[number];
+
+export type FeatureScalers = Preprocessing['features'];
+
+const oneHot = (value: string, options: string[]) => options.map(option => option === value ? 1 : 0);
+
+// Convert location type to one-hot encoding
+export const locationToVector = (location: string) => oneHot(location, LOCATION_TYPES);
+
+// Convert state to embedding from the location registry
+export const stateToEmbedding = (state: string, country: string) => {
+  return getStateEmbedding(state, country);
+};
+
+// Share of the built-up area that is usable carpet area
+export const getCarpetRatio = (features: HouseFeatures) => {
+  if (!(features.carpetArea > 0) || !(features.size > 0)) return DEFAULT_CARPET_RATIO;
+  return Math.min(1, features.carpetArea / features.size);
+};
+
+const flag = (value: boolean) => [value ? 1 : 0];
+
+const scaled = (feature: ScaledFeature) => (features: HouseFeatures, scalers: FeatureScalers) => {
+  const { mean, std } = scalers[feature];
+  return [(features[feature] - mean) / std];
+};
+
+export interface FeatureEncoder {
+  feature: keyof HouseFeatures;
+  label: string;
+  width: number;
+  encode: (features: HouseFeatures, scalers: FeatureScalers) => number[];
+}
+
+// Every model input, in column order. The model's input width is derived from this list.
+export const FEATURE_SCHEMA: FeatureEncoder[] = [
+  { feature: 'size', label: 'Built-up area', width: 1, encode: scaled('size') },
+  { feature: 'carpetArea', label: 'Carpet area', width: 1, encode: features => [getCarpetRatio(features)] },
+  { feature: 'bedrooms', label: 'Bedrooms', width: 1, encode: scaled('bedrooms') },
+  { feature: 'bathrooms', label: 'Bathrooms', width: 1, encode: scaled('bathrooms') },
+  { feature: 'yearBuilt', label: 'Year built', width: 1, encode: scaled('yearBuilt') },
+  { feature: 'propertyType', label: 'Property type', width: PROPERTY_TYPES.length, encode: features => oneHot(features.propertyType, PROPERTY_TYPES) },
+  { feature: 'floor', label: 'Floor', width: 1, encode: scaled('floor') },
+  { feature: 'totalFloors', label: 'Total floors', width: 1, encode: scaled('totalFloors') },
+  { feature: 'furnishing', label: 'Furnishing', width: FURNISHING_TYPES.length, encode: features => oneHot(features.furnishing, FURNISHING_TYPES) },
+  { feature: 'location', label: 'Area type', width: LOCATION_TYPES.length, encode: features => locationToVector(features.location) },
+  { feature: 'state', label: 'State', width: 3, encode: features => stateToEmbedding(features.state, features.country) },
+  { feature: 'hasGarage', label: 'Parking', width: 1, encode: features => flag(features.hasGarage) },
+  { feature: 'hasPool', label: 'Swimming pool', width: 1, encode: features => flag(features.hasPool) },
+  { feature: 'hasLift', label: 'Lift', width: 1, encode: features => flag(features.hasLift) },
+  { feature: 'hasPowerBackup', label: 'Power backup', width: 1, encode: features => flag(features.hasPowerBackup) },
+  { feature: 'isGatedSociety', label: 'Gated society', width: 1, encode: features => flag(features.isGatedSociety) },
+  { feature: 'isReraRegistered', label: 'RERA registered', width: 1, encode: features => flag(features.isReraRegistered) }
+];
+
+export const INPUT_WIDTH = FEATURE_SCHEMA.reduce((sum, encoder) => sum + encoder.width, 0);
+
+// Input columns produced for each HouseFeatures field
+export const FEATURE_COLUMNS = FEATURE_SCHEMA.reduce<{ feature: keyof HouseFeatures; columns: number[] }[]>(
+  (groups, encoder) => {
+    const offset = groups.reduce((sum, group) => sum + group.columns.length, 0);
+    groups.push({ feature: encoder.feature, columns: Array.from({ length: encoder.width }, (_, i) => offset + i) });
+    return groups;
+  },
+  []
+);
+
+// Display names for HouseFeatures fields
+export const FEATURE_LABELS: { [K in keyof HouseFeatures]?: string } = Object.fromEntries(
+  FEATURE_SCHEMA.map(encoder => [encoder.feature, encoder.label])
+);
+
+// Convert features to the numeric model input vector using the model's fitted scalers.
+// Areas are converted to square feet first, whatever unit the listing quotes.
+export const featuresToVector = (features: HouseFeatures, scalers: FeatureScalers) => {
+  const inSquareFeet = toSquareFeet(features);
+  return FEATURE_SCHEMA.flatMap(encoder => encoder.encode(inSquareFeet, scalers));
+};
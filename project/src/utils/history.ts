@@ -0,0 +1,90 @@
+import type { HouseFeatures, MarketSettings, ModelMetadata, PredictionResult, SavedValuation } from '../types';
+
+const DB_NAME = 'house-price-history';
+const STORE_NAME = 'valuations';
+
+let database: Promise<IDBDatabase> | null = null;
+
+// Open the history database once, creating the store on first use
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+};
+
+// Run one request in its own transaction and resolve once the transaction commits
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const PROPERTY_TYPE_NAMES: Record<HouseFeatures['propertyType'], string> = {
+  apartment: 'apartment',
+  'independent-house': 'independent house',
+  villa: 'villa'
+};
+
+// Short description such as "3 BHK apartment in Mumbai"
+export const describeListing = (features: HouseFeatures) => {
+  return `${features.bedrooms} BHK ${PROPERTY_TYPE_NAMES[features.propertyType]} in ${features.city || features.state || 'unknown city'}`;
+};
+
+// Store a valuation with the inputs, market settings and model that produced it
+export const saveValuation = async (
+  features: HouseFeatures,
+  result: PredictionResult,
+  market: MarketSettings,
+  metadata: ModelMetadata | null
+): Promise<SavedValuation> => {
+  const entry: SavedValuation = {
+    id: crypto.randomUUID(),
+    name: describeListing(features),
+    savedAt: new Date().toISOString(),
+    features,
+    result,
+    market,
+    model: metadata
+      ? { trainedAt: metadata.trainedAt, trainingSource: metadata.trainingSource, trainingSize: metadata.trainingSize }
+      : null
+  };
+  await runRequest('readwrite', store => store.put(entry));
+  return entry;
+};
+
+// All saved valuations, newest first
+export const listValuations = async (): Promise<SavedValuation[]> => {
+  const entries = await runRequest<SavedValuation[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const deleteValuation = async (id: string) => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+// Valuations whose name, location or property type contain every word of the query
+export const searchValuations = (entries: SavedValuation[], query: string) => {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+
+  return entries.filter(entry => {
+    const { city, state, propertyType, furnishing } = entry.features;
+    const haystack = [entry.name, city, state, propertyType, furnishing].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
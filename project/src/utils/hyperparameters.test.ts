@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_HYPERPARAMETERS, validateHyperparameters } from './hyperparameters';
+
+describe('validateHyperparameters', () => {
+  it('accepts the defaults', () => {
+    expect(validateHyperparameters(DEFAULT_HYPERPARAMETERS)).toEqual([]);
+  });
+
+  it('rejects architectures with no dropout to sample the price range from', () => {
+    const layers = DEFAULT_HYPERPARAMETERS.layers.map(layer => ({ ...layer, dropout: 0 }));
+    expect(validateHyperparameters({ ...DEFAULT_HYPERPARAMETERS, layers })).toEqual([
+      'At least one layer needs dropout above 0 to estimate the price range'
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { Hyperparameters } from '../types';
+
+// The architecture and fit options used unless the training console chooses others
+export const DEFAULT_HYPERPARAMETERS: Hyperparameters = {
+  layers: [
+    { units: 64, dropout: 0.2 },
+    { units: 32, dropout: 0.1 },
+    { units: 16, dropout: 0 }
+  ],
+  learningRate: 0.001,
+  epochs: 50,
+  batchSize: 32,
+  earlyStopping: { enabled: false, patience: 5 }
+};
+
+export const MAX_HIDDEN_LAYERS = 6;
+export const MAX_UNITS = 512;
+export const MAX_EPOCHS = 1000;
+
+const isIntegerBetween = (value: number, min: number, max: number) => {
+  return Number.isInteger(value) && value >= min && value <= max;
+};
+
+// Check hyperparameters before training; returns messages for every problem
+export const validateHyperparameters = (hyperparameters: Hyperparameters): string[] => {
+  const errors: string[] = [];
+  const { layers, learningRate, epochs, batchSize, earlyStopping } = hyperparameters;
+
+  if (layers.length === 0 || layers.length > MAX_HIDDEN_LAYERS) {
+    errors.push(`Use between 1 and ${MAX_HIDDEN_LAYERS} hidden layers`);
+  }
+
+  layers.forEach((layer, i) => {
+    if (!isIntegerBetween(layer.units, 1, MAX_UNITS)) {
+      errors.push(`Layer ${i + 1} needs between 1 and ${MAX_UNITS} units`);
+    }
+    if (!(layer.dropout >= 0 && layer.dropout < 1)) {
+      errors.push(`Layer ${i + 1} dropout must be at least 0 and below 1`);
+    }
+  });
+
+  // The price range comes from sampling with dropout on; without any the range has no width
+  if (layers.length > 0 && !layers.some(layer => layer.dropout > 0)) {
+    errors.push('At least one layer needs dropout above 0 to estimate the price range');
+  }
+
+  if (!(learningRate > 0 && learningRate <= 1)) {
+    errors.push('Learning rate must be above 0 and at most 1');
+  }
+
+  if (!isIntegerBetween(epochs, 1, MAX_EPOCHS)) {
+    errors.push(`Epochs must be a whole number from 1 to ${MAX_EPOCHS}`);
+  }
+
+  if (!isIntegerBetween(batchSize, 1, 4096)) {
+    errors.push('Batch size must be a whole number from 1 to 4096');
+  }
+
+  if (earlyStopping.enabled && !isIntegerBetween(earlyStopping.patience, 1, epochs)) {
+    errors.push('Early stopping patience must be between 1 and the number of epochs');
+  }
+
+  return errors;
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { HouseFeatures, PredictionResult, TrainingExample } from '../types';
+import { createDefaultFeatures } from './featureSchema';
+import {
+  AGE_BANDS,
+  AMENITY_FIELDS,
+  NO_FILTERS,
+  amenityPremiums,
+  filterListings,
+  getFilterOptions,
+  groupStatsToCSV,
+  priceByAreaType,
+  pricePerSqftByAge,
+  pricePerSqftByLocation,
+  queryModelInsights
+} from './insights';
+
+const listing = (changes: Partial<HouseFeatures>, price: number): TrainingExample => ({
+  features: { ...createDefaultFeatures(), size: 1000, bedrooms: 2, bathrooms: 2, yearBuilt: 2020, city: 'Pune', state: 'Maharashtra', ...changes },
+  price
+});
+
+const listings = [
+  listing({}, 8000000),
+  listing({ city: 'Poona', hasGarage: true }, 10000000),
+  listing({ city: 'Bombay', location: 'urban', bedrooms: 3 }, 30000000),
+  listing({ city: 'Bengaluru', state: 'Karnataka', location: 'urban', yearBuilt: 1990 }, 12000000)
+];
+
+describe('filterListings', () => {
+  it('matches registry names, so aliases count as their city', () => {
+    expect(filterListings(listings, { ...NO_FILTERS, city: 'Pune' })).toHaveLength(2);
+    expect(filterListings(listings, { ...NO_FILTERS, state: 'Maharashtra', bedrooms: 2 })).toHaveLength(2);
+    expect(filterListings(listings, NO_FILTERS)).toHaveLength(4);
+  });
+
+  it('offers the cities of the chosen state only', () => {
+    const options = getFilterOptions(listings, { ...NO_FILTERS, state: 'Maharashtra' });
+    expect(options.states).toEqual(['Karnataka', 'Maharashtra']);
+    expect(options.cities).toEqual(['Mumbai', 'Pune']);
+    expect(options.bedrooms).toEqual([2, 3]);
+  });
+});
+
+describe('grouped statistics', () => {
+  it('summarizes price per sq ft by city, dearest first', () => {
+    const [dearest, ...rest] = pricePerSqftByLocation(listings, 'city');
+    expect(dearest).toMatchObject({ label: 'Mumbai', count: 1, median: 30000 });
+    expect(rest.find(group => group.label === 'Pune')).toMatchObject({ count: 2, low: 8500, median: 9000, high: 9500 });
+  });
+
+  it('groups prices by area type and age band', () => {
+    expect(priceByAreaType(listings).map(group => [group.label, group.count])).toEqual([['urban', 2], ['suburban', 2]]);
+    expect(pricePerSqftByAge(listings, 2025).map(group => [group.label, group.count])).toEqual([['5–9', 3], ['30–49', 1]]);
+  });
+
+  it('exports groups as CSV', () => {
+    const csv = groupStatsToCSV(priceByAreaType(listings), 'area_type', 'price');
+    expect(csv.split(/\r?\n/)[0]).toBe('area_type,listings,price_p25,price_median,price_p75');
+  });
+});
+
+describe('queryModelInsights', () => {
+  // A fake model that adds 10% for parking and loses 1% of value per year of age
+  const predict = async (featuresList: HouseFeatures[]): Promise<PredictionResult[]> => featuresList.map(features => {
+    const price = features.size * 10000 * (features.hasGarage ? 1.1 : 1) * (1 - (2025 - features.yearBuilt) / 100);
+    return { price, low: price, high: price, confidence: 90, adjustments: [] };
+  });
+
+  it('measures like-for-like amenity premiums and the age curve', async () => {
+    const insights = await queryModelInsights(listings, predict, 2025);
+    expect(insights.sampleSize).toBe(4);
+    expect(insights.amenities).toHaveLength(AMENITY_FIELDS.length);
+    expect(insights.amenities.find(amenity => amenity.feature === 'hasGarage')?.premium).toBeCloseTo(0.1);
+    expect(insights.amenities.find(amenity => amenity.feature === 'hasPool')?.premium).toBeCloseTo(0);
+    expect(insights.ageCurve.map(point => point.label)).toEqual(AGE_BANDS.map(band => band.label));
+    expect(insights.ageCurve[0].pricePerSqft).toBeGreaterThan(insights.ageCurve[4].pricePerSqft);
+
+    const parking = amenityPremiums(listings, insights).find(amenity => amenity.feature === 'hasGarage');
+    // Listings with parking sit below the median of those without, which are mostly dearer cities
+    expect(parking?.listed).toBeCloseTo(10000 / 12000 - 1);
+    expect(parking?.model).toBeCloseTo(0.1);
+  });
+});
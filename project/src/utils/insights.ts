@@ -0,0 +1,262 @@
+import type { HouseFeatures, PredictionResult, TrainingExample } from '../types';
+import type { PricePredictor } from './batch';
+import { FEATURE_LABELS, LOCATION_TYPES } from './featureSchema';
+import { canonicalizeLocation } from './locations';
+import { toSquareFeet } from './areaUnits';
+import { formatCSV } from './csv';
+
+// Narrow the dashboard to one state, city or bedroom count; empty values match everything
+export interface InsightFilters {
+  state: string;
+  city: string;
+  bedrooms: number | null;
+}
+
+export const NO_FILTERS: InsightFilters = { state: '', city: '', bedrooms: null };
+
+// Spread of one value across a group of listings
+export interface GroupStats {
+  label: string;
+  count: number;
+  low: number;
+  median: number;
+  high: number;
+}
+
+export interface AgeBand {
+  label: string;
+  minAge: number;
+  maxAge: number;
+}
+
+// Building ages the age curves are bucketed into; the model is queried at each band's midpoint
+export const AGE_BANDS: AgeBand[] = [
+  { label: '0–4', minAge: 0, maxAge: 4 },
+  { label: '5–9', minAge: 5, maxAge: 9 },
+  { label: '10–19', minAge: 10, maxAge: 19 },
+  { label: '20–29', minAge: 20, maxAge: 29 },
+  { label: '30–49', minAge: 30, maxAge: 49 }
+];
+
+type AmenityField = 'hasGarage' | 'hasPool' | 'hasLift' | 'hasPowerBackup' | 'isGatedSociety' | 'isReraRegistered';
+
+export const AMENITY_FIELDS: AmenityField[] = ['hasGarage', 'hasPool', 'hasLift', 'hasPowerBackup', 'isGatedSociety', 'isReraRegistered'];
+
+// Median relative and absolute price change when the model is asked with and without an amenity
+export interface ModelAmenityPremium {
+  feature: AmenityField;
+  premium: number;
+  value: number;
+}
+
+// What one amenity is worth: the raw gap between listings with and without it, and the
+// like-for-like premium the model adds when only that amenity changes (null until queried)
+export interface AmenityPremium {
+  feature: AmenityField;
+  label: string;
+  // Median price per sq ft with the amenity over that without, minus one; null when either side is empty
+  listed: number | null;
+  model: number | null;
+  modelValue: number | null;
+}
+
+export interface AgeCurvePoint {
+  label: string;
+  // Median price per sq ft the model predicts for the sampled listings at this age
+  pricePerSqft: number;
+}
+
+export interface ModelInsights {
+  amenities: ModelAmenityPremium[];
+  ageCurve: AgeCurvePoint[];
+  sampleSize: number;
+}
+
+// Listings queried against the model; each is valued once per amenity state and age band
+export const MODEL_SAMPLE_SIZE = 40;
+
+// Value at fraction p of a sorted list, interpolating between neighbours
+const quantile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p;
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+export const median = (values: number[]) => quantile([...values].sort((a, b) => a - b), 0.5);
+
+// Count, quartiles and median of a group's values
+const summarize = (label: string, values: number[]): GroupStats => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    label,
+    count: sorted.length,
+    low: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    high: quantile(sorted, 0.75)
+  };
+};
+
+export const pricePerSqft = (example: TrainingExample) => example.price / toSquareFeet(example.features).size;
+
+// State and city under their registry names, so aliases and spelling variants group together
+const locationOf = (features: HouseFeatures) => canonicalizeLocation(features.city, features.state, features.country);
+
+const ageOf = (features: HouseFeatures, currentYear: number) => Math.max(0, currentYear - features.yearBuilt);
+
+// Listings matching every set filter. Filter values are registry names, as offered by getFilterOptions.
+export const filterListings = (examples: TrainingExample[], filters: InsightFilters) => {
+  return examples.filter(({ features }) => {
+    const { city, state } = locationOf(features);
+    return (!filters.state || state === filters.state)
+      && (!filters.city || city === filters.city)
+      && (filters.bedrooms === null || features.bedrooms === filters.bedrooms);
+  });
+};
+
+const sortedUnique = <T extends string | number>(values: T[]) => [...new Set(values)].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+
+// Values to offer in each filter; cities are limited to the chosen state
+export const getFilterOptions = (examples: TrainingExample[], filters: InsightFilters) => {
+  const locations = examples.map(({ features }) => locationOf(features));
+  return {
+    states: sortedUnique(locations.map(location => location.state)),
+    cities: sortedUnique(locations.filter(location => !filters.state || location.state === filters.state).map(location => location.city)),
+    bedrooms: sortedUnique(examples.map(({ features }) => features.bedrooms))
+  };
+};
+
+// Price per sq ft by state or city, dearest first, keeping the groups with the most listings
+export const pricePerSqftByLocation = (examples: TrainingExample[], level: 'state' | 'city', limit = 12): GroupStats[] => {
+  const groups = new Map<string, number[]>();
+  examples.forEach(example => {
+    const label = locationOf(example.features)[level];
+    groups.set(label, [...groups.get(label) ?? [], pricePerSqft(example)]);
+  });
+  return [...groups]
+    .map(([label, values]) => summarize(label, values))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .sort((a, b) => b.median - a.median);
+};
+
+// Price by area type, in the schema's urban, suburban, rural order; empty types are left out
+export const priceByAreaType = (examples: TrainingExample[]): GroupStats[] => {
+  return LOCATION_TYPES
+    .map(type => summarize(type, examples.filter(example => example.features.location === type).map(example => example.price)))
+    .filter(group => group.count > 0);
+};
+
+// Price per sq ft by building age band, youngest first
+export const pricePerSqftByAge = (examples: TrainingExample[], currentYear: number): GroupStats[] => {
+  return AGE_BANDS
+    .map(band => summarize(band.label, examples
+      .filter(example => {
+        const age = ageOf(example.features, currentYear);
+        return age >= band.minAge && age <= band.maxAge;
+      })
+      .map(pricePerSqft)))
+    .filter(group => group.count > 0);
+};
+
+// Raw price-per-sq-ft gap between listings with and without an amenity
+const listedPremium = (examples: TrainingExample[], feature: AmenityField) => {
+  const withIt = examples.filter(example => example.features[feature]).map(pricePerSqft);
+  const without = examples.filter(example => !example.features[feature]).map(pricePerSqft);
+  if (withIt.length === 0 || without.length === 0) return null;
+  return median(withIt) / median(without) - 1;
+};
+
+// Listed gap for every amenity, with the model's premium once it has been queried
+export const amenityPremiums = (examples: TrainingExample[], insights: ModelInsights | null = null): AmenityPremium[] => {
+  return AMENITY_FIELDS.map(feature => {
+    const queried = insights?.amenities.find(amenity => amenity.feature === feature);
+    return {
+      feature,
+      label: FEATURE_LABELS[feature] ?? feature,
+      listed: listedPremium(examples, feature),
+      model: queried?.premium ?? null,
+      modelValue: queried?.value ?? null
+    };
+  });
+};
+
+// Evenly spaced listings, so the sample covers the whole (filtered) dataset
+export const sampleListings = <T>(items: T[], size: number) => {
+  if (items.length <= size) return items;
+  return Array.from({ length: size }, (_, i) => items[Math.floor(i * items.length / size)]);
+};
+
+// Ask the model about a sample of the listings: each amenity switched off and on with
+// everything else fixed, and each listing re-dated to every age band. All variants are
+// valued in one batched call.
+export const queryModelInsights = async (
+  examples: TrainingExample[],
+  predict: PricePredictor,
+  currentYear: number,
+  sampleSize = MODEL_SAMPLE_SIZE
+): Promise<ModelInsights> => {
+  const sample = sampleListings(examples, sampleSize).map(example => example.features);
+  const amenityVariants = AMENITY_FIELDS.flatMap(feature =>
+    sample.flatMap(features => [{ ...features, [feature]: false }, { ...features, [feature]: true }])
+  );
+  const ageVariants = AGE_BANDS.flatMap(band =>
+    sample.map(features => ({ ...features, yearBuilt: currentYear - Math.round((band.minAge + band.maxAge) / 2) }))
+  );
+  const results = sample.length > 0 ? await predict([...amenityVariants, ...ageVariants]) : [];
+
+  // Results come back in variant order: amenity pairs first, then one block per age band
+  const perAmenity = sample.length * 2;
+  const amenities = AMENITY_FIELDS.map((feature, f) => {
+    const pairs = sample.map((_, i) => [results[f * perAmenity + i * 2], results[f * perAmenity + i * 2 + 1]] as [PredictionResult, PredictionResult]);
+    return {
+      feature,
+      premium: median(pairs.map(([off, on]) => on.price / off.price - 1)),
+      value: median(pairs.map(([off, on]) => on.price - off.price))
+    };
+  });
+
+  const ageStart = AMENITY_FIELDS.length * perAmenity;
+  const ageCurve = sample.length > 0
+    ? AGE_BANDS.map((band, b) => ({
+      label: band.label,
+      pricePerSqft: median(sample.map((features, i) => results[ageStart + b * sample.length + i].price / toSquareFeet(features).size))
+    }))
+    : [];
+
+  return { amenities, ageCurve, sampleSize: sample.length };
+};
+
+// CSV of a grouped chart: the group, its listing count and the quartiles of the value
+export const groupStatsToCSV = (groups: GroupStats[], groupHeader: string, valueHeader: string) => {
+  return formatCSV([
+    [groupHeader, 'listings', `${valueHeader}_p25`, `${valueHeader}_median`, `${valueHeader}_p75`],
+    ...groups.map(group => [group.label, group.count, Math.round(group.low), Math.round(group.median), Math.round(group.high)])
+  ]);
+};
+
+// CSV of the age curves: the listings' median price per sq ft next to the model's, by age band
+export const ageCurvesToCSV = (listed: GroupStats[], model: AgeCurvePoint[]) => {
+  return formatCSV([
+    ['age_years', 'listings', 'listed_price_per_sqft_median', 'model_price_per_sqft_median'],
+    ...AGE_BANDS.map(band => {
+      const group = listed.find(entry => entry.label === band.label);
+      const point = model.find(entry => entry.label === band.label);
+      return [band.label, group?.count ?? 0, group ? Math.round(group.median) : '', point ? Math.round(point.pricePerSqft) : ''];
+    })
+  ]);
+};
+
+// CSV of the amenity premiums, as fractions of the price
+export const amenityPremiumsToCSV = (amenities: AmenityPremium[]) => {
+  return formatCSV([
+    ['amenity', 'listed_premium', 'model_premium', 'model_premium_value'],
+    ...amenities.map(amenity => [
+      amenity.label,
+      amenity.listed?.toFixed(4) ?? '',
+      amenity.model?.toFixed(4) ?? '',
+      amenity.modelValue === null ? '' : Math.round(amenity.modelValue)
+    ])
+  ]);
+};
@@ -0,0 +1,126 @@
+import type { HouseFeatures } from '../types';
+import { FEATURE_LABELS, FURNISHING_TYPES, LOCATION_TYPES, PROPERTY_TYPES } from './featureSchema';
+import { EARLIEST_YEAR_BUILT } from './validation';
+import { AREA_UNITS } from './areaUnits';
+
+// The subset of JSON Schema used to describe API requests
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: readonly (string | number | boolean)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface SchemaViolation {
+  field: string;
+  message: string;
+}
+
+const describe = (field: keyof HouseFeatures, schema: JsonSchema): JsonSchema => ({
+  description: FEATURE_LABELS[field] ?? field,
+  ...schema
+});
+
+// HouseFeatures as accepted over HTTP; omitted optional fields take the form defaults
+export const HOUSE_FEATURES_JSON_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['size', 'bedrooms', 'bathrooms', 'city', 'state'],
+  properties: {
+    size: describe('size', { type: 'number', minimum: 0 }),
+    carpetArea: describe('carpetArea', { type: 'number', minimum: 0 }),
+    areaUnit: { type: 'string', description: 'Unit of size and carpet area (default sqft)', enum: AREA_UNITS },
+    bedrooms: describe('bedrooms', { type: 'integer', minimum: 0 }),
+    bathrooms: describe('bathrooms', { type: 'integer', minimum: 0 }),
+    propertyType: describe('propertyType', { type: 'string', enum: PROPERTY_TYPES }),
+    floor: describe('floor', { type: 'integer', minimum: 0 }),
+    totalFloors: describe('totalFloors', { type: 'integer', minimum: 1 }),
+    furnishing: describe('furnishing', { type: 'string', enum: FURNISHING_TYPES }),
+    location: describe('location', { type: 'string', enum: LOCATION_TYPES }),
+    city: { type: 'string', description: 'City', minLength: 1 },
+    state: describe('state', { type: 'string', minLength: 1 }),
+    country: { type: 'string', description: 'Country', minLength: 1 },
+    yearBuilt: describe('yearBuilt', { type: 'integer', minimum: EARLIEST_YEAR_BUILT }),
+    hasGarage: describe('hasGarage', { type: 'boolean' }),
+    hasPool: describe('hasPool', { type: 'boolean' }),
+    hasLift: describe('hasLift', { type: 'boolean' }),
+    hasPowerBackup: describe('hasPowerBackup', { type: 'boolean' }),
+    isGatedSociety: describe('isGatedSociety', { type: 'boolean' }),
+    isReraRegistered: describe('isReraRegistered', { type: 'boolean' })
+  }
+};
+
+const typeOf = (value: unknown) => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: NonNullable<JsonSchema['type']>) => {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+};
+
+// Check a value against a schema, returning every violation with the path of the offending field
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = ''): SchemaViolation[] => {
+  const field = path || '(body)';
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ field, message: `must be ${schema.type === 'integer' || schema.type === 'array' ? 'an' : 'a'} ${schema.type}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    return [{ field, message: `must be one of ${schema.enum.join(', ')}` }];
+  }
+
+  const violations: SchemaViolation[] = [];
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) violations.push({ field, message: `must be at least ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) violations.push({ field, message: `must be at most ${schema.maximum}` });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    violations.push({ field, message: 'must not be empty' });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) violations.push({ field, message: `must contain at least ${schema.minItems} item(s)` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) violations.push({ field, message: `must contain at most ${schema.maxItems} item(s)` });
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, i) => violations.push(...validateJsonSchema(item, items, `${path}[${i}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const prefix = path ? `${path}.` : '';
+    (schema.required ?? []).forEach(name => {
+      if (object[name] === undefined) violations.push({ field: `${prefix}${name}`, message: 'is required' });
+    });
+    Object.entries(object).forEach(([name, property]) => {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        violations.push(...validateJsonSchema(property, propertySchema, `${prefix}${name}`));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ field: `${prefix}${name}`, message: 'is not a known field' });
+      }
+    });
+  }
+
+  return violations;
+};
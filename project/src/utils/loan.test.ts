@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeLoan, calculateAffordability, calculateEmi } from './loan';
+
+describe('calculateEmi', () => {
+  it('matches the standard EMI formula', () => {
+    // ₹50 lakh at 8.5% over 20 years
+    expect(calculateEmi(5000000, 8.5, 240)).toBeCloseTo(43391.16, 1);
+  });
+
+  it('splits the loan evenly without interest', () => {
+    expect(calculateEmi(1200000, 0, 120)).toBe(10000);
+  });
+});
+
+describe('analyzeLoan', () => {
+  it('repays the whole loan over the schedule', () => {
+    const loan = analyzeLoan(10000000, { downPaymentPercent: 20, annualRate: 9, tenureYears: 15 });
+    expect(loan.downPayment).toBe(2000000);
+    expect(loan.loanAmount).toBe(8000000);
+    expect(loan.schedule).toHaveLength(15);
+    expect(loan.schedule.at(-1)?.balance).toBeCloseTo(0, 0);
+
+    const principal = loan.schedule.reduce((sum, year) => sum + year.principal, 0);
+    const interest = loan.schedule.reduce((sum, year) => sum + year.interest, 0);
+    expect(principal).toBeCloseTo(loan.loanAmount, 0);
+    expect(interest).toBeCloseTo(loan.totalInterest, 0);
+  });
+
+  it('needs no loan when the down payment covers the price', () => {
+    const loan = analyzeLoan(5000000, { downPaymentPercent: 100, annualRate: 8.5, tenureYears: 20 });
+    expect(loan.emi).toBe(0);
+    expect(loan.schedule).toEqual([]);
+  });
+});
+
+describe('calculateAffordability', () => {
+  it('inverts the EMI calculation', () => {
+    const terms = { downPaymentPercent: 20, annualRate: 8.5, tenureYears: 20 };
+    const { emi } = analyzeLoan(8000000, terms);
+    const affordability = calculateAffordability({ monthlyIncome: emi * 2.5, emiRatioPercent: 40 }, terms);
+    expect(affordability.maxEmi).toBeCloseTo(emi, 6);
+    expect(affordability.maxPrice).toBeCloseTo(8000000, 0);
+  });
+});
@@ -0,0 +1,85 @@
+import type { Affordability, AffordabilityInputs, AmortizationYear, LoanSummary, LoanTerms } from '../types';
+
+// Typical terms for an Indian home loan
+export const DEFAULT_LOAN_TERMS: LoanTerms = {
+  downPaymentPercent: 20,
+  annualRate: 8.5,
+  tenureYears: 20
+};
+
+// Lenders commonly cap the EMI at 40-50% of take-home pay
+export const DEFAULT_AFFORDABILITY: AffordabilityInputs = {
+  monthlyIncome: 150000,
+  emiRatioPercent: 40
+};
+
+const clamp = (value: number, min: number, max: number) => {
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : min;
+};
+
+const normalizeTerms = (terms: LoanTerms): LoanTerms => ({
+  downPaymentPercent: clamp(terms.downPaymentPercent, 0, 100),
+  annualRate: clamp(terms.annualRate, 0, 50),
+  tenureYears: Math.round(clamp(terms.tenureYears, 1, 40))
+});
+
+const monthlyRate = (annualRate: number) => annualRate / 12 / 100;
+
+// Equated monthly instalment: P·r·(1+r)^n / ((1+r)^n − 1) for monthly rate r over n months
+export const calculateEmi = (loanAmount: number, annualRate: number, months: number) => {
+  const rate = monthlyRate(annualRate);
+  if (rate === 0) return loanAmount / months;
+  const growth = (1 + rate) ** months;
+  return loanAmount * rate * growth / (growth - 1);
+};
+
+// Down payment, loan, EMI, total interest and a year-by-year amortization schedule for a price
+export const analyzeLoan = (price: number, terms: LoanTerms = DEFAULT_LOAN_TERMS): LoanSummary => {
+  const { downPaymentPercent, annualRate, tenureYears } = normalizeTerms(terms);
+  const downPayment = price * downPaymentPercent / 100;
+  const loanAmount = price - downPayment;
+  const months = tenureYears * 12;
+  const emi = loanAmount > 0 ? calculateEmi(loanAmount, annualRate, months) : 0;
+
+  const schedule: AmortizationYear[] = [];
+  let balance = loanAmount;
+  for (let year = 1; year <= tenureYears && loanAmount > 0; year++) {
+    let principal = 0;
+    let interest = 0;
+    for (let month = 0; month < 12; month++) {
+      const monthInterest = balance * monthlyRate(annualRate);
+      const monthPrincipal = Math.min(balance, emi - monthInterest);
+      interest += monthInterest;
+      principal += monthPrincipal;
+      balance -= monthPrincipal;
+    }
+    schedule.push({ year, principal, interest, balance: Math.max(0, balance) });
+  }
+
+  const totalPayment = emi * months;
+  return {
+    price,
+    downPayment,
+    loanAmount,
+    emi,
+    totalInterest: Math.max(0, totalPayment - loanAmount),
+    totalPayment,
+    schedule
+  };
+};
+
+// The most a buyer can pay when the EMI may take the given share of their income
+export const calculateAffordability = (
+  { monthlyIncome, emiRatioPercent }: AffordabilityInputs,
+  terms: LoanTerms = DEFAULT_LOAN_TERMS
+): Affordability => {
+  const { downPaymentPercent, annualRate, tenureYears } = normalizeTerms(terms);
+  const maxEmi = clamp(monthlyIncome, 0, Infinity) * clamp(emiRatioPercent, 0, 100) / 100;
+  const months = tenureYears * 12;
+  const rate = monthlyRate(annualRate);
+
+  // Inverse of calculateEmi: the loan whose instalment is maxEmi
+  const maxLoanAmount = rate === 0 ? maxEmi * months : maxEmi * (1 - (1 + rate) ** -months) / rate;
+  const maxPrice = downPaymentPercent >= 100 ? Infinity : maxLoanAmount / (1 - downPaymentPercent / 100);
+  return { maxEmi, maxLoanAmount, maxPrice };
+};
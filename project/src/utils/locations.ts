@@ -0,0 +1,154 @@
+import type { AreaUnit, CityConfig, CountryConfig, LocationRegistry, StateConfig } from '../types';
+import locationConfig from '../config/locations.json';
+import { AREA_UNITS } from './areaUnits';
+
+// The bundled location table, extended at runtime by registerCountry
+const registry: LocationRegistry = {
+  ...(locationConfig as LocationRegistry),
+  countries: [...(locationConfig as LocationRegistry).countries]
+};
+
+export const DEFAULT_COUNTRY = 'India';
+
+const matches = (entry: { name: string; aliases: string[] }, value: string) => {
+  const needle = value.trim().toLowerCase();
+  return needle !== ''
+    && (entry.name.toLowerCase() === needle || entry.aliases.some(alias => alias.toLowerCase() === needle));
+};
+
+export const findCountry = (country: string = DEFAULT_COUNTRY): CountryConfig | undefined => {
+  return registry.countries.find(entry => matches(entry, country));
+};
+
+// Names of every country with a location table
+export const getCountryNames = () => registry.countries.map(country => country.name);
+
+// Currency, number format and area unit for a country; unknown countries use the default country's
+export const getCountrySettings = (country: string = DEFAULT_COUNTRY) => {
+  const { currency, locale, areaUnit } = findCountry(country) ?? (findCountry(DEFAULT_COUNTRY) as CountryConfig);
+  return { currency, locale, areaUnit };
+};
+
+// Country whose own model values a listing, or null for the default model: the default country
+// and countries without a location table share the default model
+export const getModelCountry = (country: string): string | null => {
+  const known = findCountry(country);
+  return known && known.name !== DEFAULT_COUNTRY ? known.name : null;
+};
+
+// Price level of a country in its own currency, used when generating synthetic training prices
+export const getCountryPriceMultiplier = (country: string = DEFAULT_COUNTRY) => {
+  return findCountry(country)?.priceMultiplier ?? registry.defaults.priceMultiplier;
+};
+
+// Look up a state by name or alias within a country
+export const findState = (state: string, country: string = DEFAULT_COUNTRY): StateConfig | undefined => {
+  return findCountry(country)?.states.find(entry => matches(entry, state));
+};
+
+// Look up a city by name or alias; without a known state, every state in the country is searched
+export const findCity = (city: string, state = '', country: string = DEFAULT_COUNTRY): CityConfig | undefined => {
+  const knownState = findState(state, country);
+  const states = knownState ? [knownState] : findCountry(country)?.states ?? [];
+  for (const entry of states) {
+    const match = entry.cities.find(c => matches(c, city));
+    if (match) return match;
+  }
+  return undefined;
+};
+
+// Canonical names for whatever the user typed, keeping unknown values as entered
+export const canonicalizeLocation = (city: string, state: string, country: string = DEFAULT_COUNTRY) => {
+  const knownState = findState(state, country);
+  return {
+    city: findCity(city, state, country)?.name ?? city.trim(),
+    state: knownState?.name ?? state.trim(),
+    country: findCountry(country)?.name ?? country.trim()
+  };
+};
+
+// Model embedding for a state; unknown states use the registry default
+export const getStateEmbedding = (state: string, country: string = DEFAULT_COUNTRY) => {
+  return findState(state, country)?.embedding ?? registry.defaults.embedding;
+};
+
+// Price multiplier used when generating synthetic training prices
+export const getStatePriceMultiplier = (state: string, country: string = DEFAULT_COUNTRY) => {
+  return findState(state, country)?.priceMultiplier ?? registry.defaults.priceMultiplier;
+};
+
+// Post-prediction premium for a city; unknown cities get no premium
+export const getCityPremium = (city: string, state = '', country: string = DEFAULT_COUNTRY) => {
+  return findCity(city, state, country)?.premium ?? registry.defaults.premium;
+};
+
+export const getStateNames = (country: string = DEFAULT_COUNTRY) => {
+  return (findCountry(country)?.states ?? []).map(state => state.name);
+};
+
+// City names for autocomplete, limited to one state when it is known
+export const getCityNames = (state = '', country: string = DEFAULT_COUNTRY) => {
+  const knownState = findState(state, country);
+  const states = knownState ? [knownState] : findCountry(country)?.states ?? [];
+  return states.flatMap(entry => entry.cities.map(city => city.name));
+};
+
+// All known states with their cities, for sampling synthetic listings
+export const getRegistryStates = (country: string = DEFAULT_COUNTRY): StateConfig[] => {
+  return findCountry(country)?.states ?? [];
+};
+
+const isNamed = <T>(value: T): value is T & { name: string; aliases: string[] } => {
+  const entry = value as { name?: unknown; aliases?: unknown } | null;
+  return typeof entry === 'object' && entry !== null
+    && typeof entry.name === 'string' && entry.name.trim() !== ''
+    && Array.isArray(entry.aliases) && entry.aliases.every(alias => typeof alias === 'string');
+};
+
+const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+
+// Check a country's location table read from a file, naming the first problem found
+export const parseCountryConfig = (value: unknown): CountryConfig => {
+  const country = value as Partial<CountryConfig> | null;
+  if (!isNamed(country)) {
+    throw new Error('A location table needs a country name and an aliases list');
+  }
+  const { name } = country;
+  if (typeof country.currency !== 'string' || !/^[A-Z]{3}$/.test(country.currency)) {
+    throw new Error(`${name}: currency must be a three-letter ISO code such as INR`);
+  }
+  if (typeof country.locale !== 'string' || !Intl.NumberFormat.supportedLocalesOf(country.locale).length) {
+    throw new Error(`${name}: unsupported locale "${country.locale}"`);
+  }
+  if (!AREA_UNITS.includes(country.areaUnit as AreaUnit)) {
+    throw new Error(`${name}: areaUnit must be sqft, sqm or sqyd`);
+  }
+  if (!isPositive(country.priceMultiplier)) {
+    throw new Error(`${name}: priceMultiplier must be a positive number`);
+  }
+  if (!Array.isArray(country.states) || country.states.length === 0) {
+    throw new Error(`${name}: the location table has no states`);
+  }
+  country.states.forEach(state => {
+    if (!isNamed(state) || !isPositive(state.priceMultiplier) || !Array.isArray(state.cities)
+      || !Array.isArray(state.embedding) || state.embedding.length !== registry.defaults.embedding.length) {
+      throw new Error(`${name}: every state needs a name, aliases, a ${registry.defaults.embedding.length}-value embedding, a priceMultiplier and cities`);
+    }
+    state.cities.forEach(city => {
+      if (!isNamed(city) || !isPositive(city.premium)) {
+        throw new Error(`${name}, ${state.name}: every city needs a name, aliases and a premium`);
+      }
+    });
+  });
+  return country as CountryConfig;
+};
+
+// Add a country's location table, replacing any table registered under the same name
+export const registerCountry = (config: CountryConfig) => {
+  const index = registry.countries.findIndex(country => country.name.toLowerCase() === config.name.toLowerCase());
+  if (index === -1) {
+    registry.countries.push(config);
+  } else {
+    registry.countries[index] = config;
+  }
+};
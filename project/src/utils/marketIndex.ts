@@ -0,0 +1,201 @@
+import type { HouseFeatures, MarketAdjustment, MarketIndex, MarketIndexPoint, MarketIndexSeries } from '../types';
+import marketIndexConfig from '../config/marketIndex.json';
+import { parseCSV } from './csv';
+import { DEFAULT_COUNTRY, findCity, findCountry, findState } from './locations';
+
+// Index shipped with the app; model prices are taken to reflect the market at its base date
+export const BUNDLED_MARKET_INDEX = marketIndexConfig as MarketIndex;
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+// Months since year 0 for a YYYY-MM date, or NaN when the date is malformed
+export const toMonthNumber = (date: string) => {
+  const match = MONTH_PATTERN.exec(date.trim());
+  if (!match) return NaN;
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? Number(match[1]) * 12 + month - 1 : NaN;
+};
+
+const fromMonthNumber = (month: number) => {
+  return `${Math.floor(month / 12)}-${String(month % 12 + 1).padStart(2, '0')}`;
+};
+
+// The current month as YYYY-MM
+export const currentMonth = (now: Date = new Date()) => {
+  return fromMonthNumber(now.getFullYear() * 12 + now.getMonth());
+};
+
+// "Jan 2024" style label for a YYYY-MM date
+export const formatMonth = (date: string) => {
+  const month = toMonthNumber(date);
+  return new Date(Math.floor(month / 12), month % 12, 1).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+};
+
+const sameName = (a: string | undefined, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+// Most specific series for a listing: its city, then its state, then the national series
+export const findMarketSeries = (index: MarketIndex, features: HouseFeatures): MarketIndexSeries | undefined => {
+  const city = findCity(features.city, features.state, features.country)?.name ?? features.city.trim();
+  const state = findState(features.state, features.country)?.name ?? features.state.trim();
+
+  return index.series.find(series => sameName(series.city, city) && (!series.state || sameName(series.state, state)))
+    ?? index.series.find(series => !series.city && sameName(series.state, state))
+    ?? index.series.find(series => !series.city && !series.state);
+};
+
+interface IndexLevel {
+  value: number;
+  projected: boolean;
+}
+
+// Index level for a month: interpolated inside the series, held flat before it and
+// projected forward at the trailing 12-month growth rate after it
+export const indexValueAt = (points: MarketIndexPoint[], date: string): IndexLevel => {
+  const month = toMonthNumber(date);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const lastMonth = toMonthNumber(last.date);
+
+  if (month <= toMonthNumber(first.date)) {
+    return { value: first.value, projected: false };
+  }
+
+  if (month > lastMonth) {
+    const yearEarlier = indexValueAt(points, fromMonthNumber(lastMonth - 12)).value;
+    const monthlyGrowth = Math.pow(last.value / yearEarlier, 1 / 12);
+    return { value: last.value * Math.pow(monthlyGrowth, month - lastMonth), projected: true };
+  }
+
+  const nextIndex = points.findIndex(point => toMonthNumber(point.date) >= month);
+  const next = points[nextIndex];
+  const previous = points[nextIndex - 1];
+  const nextMonth = toMonthNumber(next.date);
+  if (nextMonth === month) {
+    return { value: next.value, projected: false };
+  }
+
+  const previousMonth = toMonthNumber(previous.date);
+  const t = (month - previousMonth) / (nextMonth - previousMonth);
+  return { value: previous.value + t * (next.value - previous.value), projected: false };
+};
+
+// Adjustment that moves a model price from the index base date to the valuation date
+export const getMarketIndexAdjustment = (
+  index: MarketIndex,
+  features: HouseFeatures,
+  valuationDate: string
+): MarketAdjustment | null => {
+  // An index only moves prices in the country it tracks
+  const canonicalCountry = (country: string) => findCountry(country)?.name ?? country.trim();
+  if (canonicalCountry(features.country) !== canonicalCountry(index.country ?? DEFAULT_COUNTRY)) return null;
+
+  const series = findMarketSeries(index, features);
+  if (!series || series.points.length === 0) return null;
+
+  const base = indexValueAt(series.points, index.baseDate);
+  const target = indexValueAt(series.points, valuationDate);
+  const firstDate = series.points[0].date;
+  const lastDate = series.points[series.points.length - 1].date;
+  const coverage = target.projected
+    ? `, projected beyond ${formatMonth(lastDate)}`
+    : toMonthNumber(valuationDate) < toMonthNumber(firstDate) ? `, held at the ${formatMonth(firstDate)} level` : '';
+
+  return {
+    label: `Market index: ${series.city ?? series.state ?? 'National'}`,
+    multiplier: target.value / base.value,
+    detail: `${formatMonth(index.baseDate)} → ${formatMonth(valuationDate)}${coverage}`
+  };
+};
+
+// Earliest and latest dates covered by any series
+export const describeMarketIndex = (index: MarketIndex) => {
+  const months = index.series.flatMap(series => series.points.map(point => toMonthNumber(point.date)));
+  return {
+    baseDate: index.baseDate,
+    firstDate: fromMonthNumber(Math.min(...months)),
+    lastDate: fromMonthNumber(Math.max(...months)),
+    seriesCount: index.series.length
+  };
+};
+
+// Check every date and value, and sort each series by date
+const normalizeMarketIndex = (baseDate: string, series: MarketIndexSeries[], country?: string): MarketIndex => {
+  if (Number.isNaN(toMonthNumber(baseDate))) {
+    throw new Error(`Invalid base date "${baseDate}"; use YYYY-MM`);
+  }
+  if (series.length === 0) {
+    throw new Error('The market index has no series');
+  }
+
+  return {
+    ...(country && { country }),
+    baseDate,
+    series: series.map(entry => {
+      const region = entry.city ?? entry.state ?? 'national series';
+      if (!Array.isArray(entry.points) || entry.points.length === 0) {
+        throw new Error(`No index values for ${region}`);
+      }
+      entry.points.forEach(point => {
+        if (Number.isNaN(toMonthNumber(String(point.date)))) {
+          throw new Error(`Invalid date "${point.date}" for ${region}; use YYYY-MM`);
+        }
+        if (!(Number(point.value) > 0)) {
+          throw new Error(`Invalid index value "${point.value}" for ${region} in ${point.date}`);
+        }
+      });
+
+      const points = entry.points
+        .map(point => ({ date: String(point.date).trim(), value: Number(point.value) }))
+        .sort((a, b) => toMonthNumber(a.date) - toMonthNumber(b.date));
+      return { ...entry, points };
+    })
+  };
+};
+
+// An index in the bundled JSON layout; a missing base date keeps the bundled one and a
+// missing country means the default country
+export const parseMarketIndexJSON = (text: string, baseDate = BUNDLED_MARKET_INDEX.baseDate): MarketIndex => {
+  const data = JSON.parse(text) as Partial<MarketIndex> | null;
+  if (!data || !Array.isArray(data.series)) {
+    throw new Error('Expected a JSON object with a "series" array');
+  }
+  return normalizeMarketIndex(data.baseDate ?? baseDate, data.series, data.country);
+};
+
+// CSV rows of date, state, city and index value; rows without state or city form the national series
+export const parseMarketIndexCSV = (text: string, baseDate = BUNDLED_MARKET_INDEX.baseDate): MarketIndex => {
+  const [header = [], ...rows] = parseCSV(text);
+  const columns = header.map(h => h.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const dateColumn = column('date', 'month');
+  const stateColumn = column('state');
+  const cityColumn = column('city');
+  const valueColumn = column('index', 'value');
+
+  if (dateColumn < 0 || valueColumn < 0) {
+    throw new Error('The CSV needs date and index columns');
+  }
+
+  const grouped = new Map<string, MarketIndexSeries>();
+  rows.forEach(row => {
+    const state = row[stateColumn]?.trim() ?? '';
+    const city = row[cityColumn]?.trim() ?? '';
+    const key = `${state.toLowerCase()}|${city.toLowerCase()}`;
+    let series = grouped.get(key);
+    if (!series) {
+      series = { ...(state && { state }), ...(city && { city }), points: [] };
+      grouped.set(key, series);
+    }
+    series.points.push({ date: row[dateColumn] ?? '', value: Number(row[valueColumn]) });
+  });
+
+  return normalizeMarketIndex(baseDate, [...grouped.values()]);
+};
+
+// Read an index from an uploaded CSV or JSON file
+export const importMarketIndexFile = async (file: File): Promise<MarketIndex> => {
+  const text = await file.text();
+  return file.name.toLowerCase().endsWith('.json')
+    ? parseMarketIndexJSON(text)
+    : parseMarketIndexCSV(text);
+};
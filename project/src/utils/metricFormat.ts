@@ -0,0 +1,22 @@
+import type { RegressionMetrics } from '../types';
+import { formatPrice } from './priceFormat';
+
+export type MetricName = keyof Omit<RegressionMetrics, 'count'>;
+
+export const METRIC_LABELS: { [K in MetricName]: string } = {
+  mae: 'MAE',
+  rmse: 'RMSE',
+  mape: 'MAPE',
+  r2: 'R²'
+};
+
+export const METRIC_NAMES = Object.keys(METRIC_LABELS) as MetricName[];
+
+// Errors in the model's currency, MAPE as a percentage and R² as a plain number. Reports read
+// back from JSON carry null where a metric could not be computed.
+export const formatMetric = (metric: MetricName, value: number | null, country?: string) => {
+  if (value === null || !Number.isFinite(value)) return '–';
+  if (metric === 'mape') return `${value.toFixed(1)}%`;
+  if (metric === 'r2') return value.toFixed(3);
+  return formatPrice(value, country);
+};
@@ -0,0 +1,268 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { HouseFeatures, PredictionResult } from '../types';
+import {
+  calculateConfidenceWithAI,
+  cancelTraining,
+  featuresToTensor,
+  getMarketListings,
+  getRentModelMetadata,
+  onTrainingProgress,
+  predictPriceWithAI,
+  predictPricesWithAI,
+  predictRentWithAI,
+  setClock,
+  setRandomSeed,
+  setRentalDataset,
+  setTrainingDataset,
+  trainNewModel
+} from './model';
+import { INPUT_WIDTH, SCALED_FEATURES, featuresToVector } from './featureSchema';
+import type { FeatureScalers } from './featureSchema';
+import { TrainingCancelledError } from './errors';
+import { MIN_TRAINING_EXAMPLES } from './dataset';
+import { isLowReliability } from './novelty';
+
+// Training on the tfjs CPU backend takes a few seconds per model
+const TRAINING_TIMEOUT = 120000;
+
+const SEED = 42;
+const VALUATION_DAY = new Date('2025-06-15T00:00:00Z');
+
+const pune: HouseFeatures = {
+  size: 1200,
+  carpetArea: 900,
+  bedrooms: 2,
+  bathrooms: 2,
+  propertyType: 'apartment',
+  floor: 5,
+  totalFloors: 12,
+  furnishing: 'semi-furnished',
+  location: 'urban',
+  city: 'Pune',
+  state: 'Maharashtra',
+  country: 'India',
+  yearBuilt: 2015,
+  hasGarage: true,
+  hasPool: false,
+  hasLift: true,
+  hasPowerBackup: true,
+  isGatedSociety: false,
+  isReraRegistered: true
+};
+
+const bengaluruVilla: HouseFeatures = { ...pune, size: 2400, bedrooms: 4, propertyType: 'villa', city: 'Bengaluru', state: 'Karnataka' };
+
+const expectWithin = (actual: number, expected: number, relativeTolerance: number) => {
+  expect(Math.abs(actual - expected) / expected).toBeLessThanOrEqual(relativeTolerance);
+};
+
+describe('calculateConfidenceWithAI', () => {
+  it('is 100 for a zero-width range', () => {
+    expect(calculateConfidenceWithAI(5000000, 5000000, 5000000)).toBe(100);
+  });
+
+  it('drops with the width of the range relative to the price', () => {
+    expect(calculateConfidenceWithAI(100, 80, 120)).toBe(80);
+    expect(calculateConfidenceWithAI(100, 50, 150)).toBe(50);
+  });
+
+  it('is clamped to 0 for very wide ranges and non-positive prices', () => {
+    expect(calculateConfidenceWithAI(100, 0, 400)).toBe(0);
+    expect(calculateConfidenceWithAI(0, 0, 10)).toBe(0);
+  });
+});
+
+describe('featuresToTensor', () => {
+  const scalers = Object.fromEntries(
+    SCALED_FEATURES.map(feature => [feature, { mean: 100, std: 50, min: 0, max: 5000 }])
+  ) as FeatureScalers;
+
+  it('stacks one encoded row per property', () => {
+    const tensor = featuresToTensor([pune, bengaluruVilla], scalers);
+    expect(tensor.shape).toEqual([2, INPUT_WIDTH]);
+    const rows = tensor.arraySync();
+    expect(rows[0]).toEqual(featuresToVector(pune, scalers).map(value => Math.fround(value)));
+    expect(rows[1]).toEqual(featuresToVector(bengaluruVilla, scalers).map(value => Math.fround(value)));
+    tensor.dispose();
+  });
+
+  it('accepts a single property', () => {
+    const tensor = featuresToTensor(pune, scalers);
+    expect(tensor.shape).toEqual([1, INPUT_WIDTH]);
+    tensor.dispose();
+  });
+});
+
+// Golden values from a seeded run on synthetic data. They only need updating when the
+// synthetic data, network or preprocessing change on purpose.
+describe('seeded training', () => {
+  beforeAll(() => {
+    setClock(() => VALUATION_DAY);
+  });
+
+  afterAll(() => {
+    setRandomSeed(null);
+    setClock(null);
+  });
+
+  it('trains a model that matches the recorded metrics and prices', async () => {
+    setRandomSeed(SEED);
+    const metadata = await trainNewModel();
+
+    expect(metadata.trainedAt).toBe(VALUATION_DAY.toISOString());
+    expect(metadata.trainingSize).toBe(800);
+    expect(metadata.evaluation?.overall.count).toBe(200);
+    expect(metadata.evaluation?.overall.r2).toBeCloseTo(0.934, 2);
+    expectWithin(metadata.evaluation?.overall.mape ?? NaN, 8.01, 0.05);
+
+    const [flat, villa] = await predictPricesWithAI([pune, bengaluruVilla]);
+    expectWithin(flat.price, 22526499, 0.02);
+    expectWithin(villa.price, 40745398, 0.02);
+    expect(flat.low).toBeLessThanOrEqual(flat.price);
+    expect(flat.high).toBeGreaterThanOrEqual(flat.price);
+  }, TRAINING_TIMEOUT);
+
+  it('shows the insights dashboard the synthetic listings the model trained on', async () => {
+    const { examples, source } = getMarketListings();
+    expect(source).toBe('synthetic');
+    expect(examples).toHaveLength(1000);
+    expect(getMarketListings().examples).toBe(examples);
+  });
+
+  it('takes the default valuation month from the clock', async () => {
+    const { adjustments } = await predictPriceWithAI(pune);
+    expect(adjustments.map(step => step.label)).toEqual(['City premium', 'Market index: Pune']);
+    expect(adjustments[1].detail).toBe('Jan 2024 → Jun 2025');
+  });
+
+  it('flags unusual properties and lowers their confidence', async () => {
+    const [typical, oversized, unknownCity] = await predictPricesWithAI([
+      pune,
+      { ...pune, size: 60000, carpetArea: 45000 },
+      { ...pune, city: 'Smallville' }
+    ]);
+    expect(typical.novelty?.reasons).toEqual([]);
+
+    expect(oversized.novelty?.reasons.some(reason => reason.startsWith('Built-up area'))).toBe(true);
+    expect(isLowReliability(oversized.novelty)).toBe(true);
+    expect(oversized.confidence).toBeLessThan(typical.confidence);
+
+    expect(unknownCity.novelty?.reasons).toEqual(['Smallville is not in the location table, so no city premium is applied']);
+    expect(unknownCity.confidence).toBeLessThan(typical.confidence);
+  });
+
+  it('values a property the same alone or in a batch', async () => {
+    const [batched] = await predictPricesWithAI([pune, bengaluruVilla]);
+    const single = await predictPriceWithAI(pune);
+    expect(single.price).toBe(batched.price);
+  });
+
+  it('reproduces the same model from the same seed', async () => {
+    setRandomSeed(SEED);
+    await trainNewModel();
+    const first = await predictPricesWithAI([pune, bengaluruVilla]);
+
+    // Seeding stays inside the model: code running alongside training keeps Math.random
+    const systemRandom = Math.random;
+    let replaced = false;
+    const unsubscribe = onTrainingProgress(() => {
+      replaced ||= Math.random !== systemRandom;
+    });
+    setRandomSeed(SEED);
+    await trainNewModel().finally(unsubscribe);
+    const second = await predictPricesWithAI([pune, bengaluruVilla]);
+
+    expect(second).toEqual(first);
+    expect(replaced).toBe(false);
+  }, TRAINING_TIMEOUT);
+});
+
+describe('cancelTraining', () => {
+  it('stops only the training run it names', async () => {
+    const seen = new Set<number>();
+    let priceRun: number | null = null;
+    let rent: Promise<unknown> | null = null;
+    const unsubscribe = onTrainingProgress(({ trainingId }) => {
+      seen.add(trainingId);
+      if (priceRun === null) {
+        // The price model is the only one training at first; start the rent model next to it
+        priceRun = trainingId;
+        rent = predictRentWithAI(pune);
+      } else if (trainingId !== priceRun) {
+        cancelTraining(priceRun);
+      }
+    });
+
+    try {
+      await expect(trainNewModel()).rejects.toBeInstanceOf(TrainingCancelledError);
+      const estimate = await (rent as Promise<PredictionResult> | null);
+      expect(estimate?.price).toBeGreaterThan(0);
+      expect(seen.size).toBe(2);
+    } finally {
+      unsubscribe();
+    }
+  }, TRAINING_TIMEOUT);
+});
+
+describe('training datasets', () => {
+  afterAll(() => {
+    setTrainingDataset([]);
+    setRentalDataset([]);
+  });
+
+  const listings = (count: number) => Array.from({ length: count }, (_, i) => ({
+    features: { ...pune, size: 800 + i * 100 },
+    price: 10000000 + i * 800000
+  }));
+
+  it('rejects datasets too small to train on', () => {
+    expect(() => setTrainingDataset(listings(4))).toThrow(`At least ${MIN_TRAINING_EXAMPLES} listings are needed`);
+  });
+
+  it('drops a model that was training on listings since replaced', async () => {
+    setTrainingDataset([]);
+    let replaced = false;
+    const unsubscribe = onTrainingProgress(() => {
+      if (!replaced) {
+        replaced = true;
+        setTrainingDataset(listings(MIN_TRAINING_EXAMPLES));
+      }
+    });
+
+    try {
+      const metadata = await trainNewModel();
+      expect(metadata.trainingSource).toBe('dataset');
+      expect(metadata.trainingSize).toBe(MIN_TRAINING_EXAMPLES - 2);
+    } finally {
+      unsubscribe();
+    }
+  }, TRAINING_TIMEOUT);
+
+  it('drops a rent model that was training on rental listings since replaced', async () => {
+    setRentalDataset([]);
+    let replaced = false;
+    const unsubscribe = onTrainingProgress(() => {
+      if (!replaced) {
+        replaced = true;
+        setRentalDataset(listings(MIN_TRAINING_EXAMPLES));
+      }
+    });
+
+    try {
+      await predictRentWithAI(pune);
+      expect(getRentModelMetadata()?.trainingSource).toBe('dataset');
+      expect(getRentModelMetadata()?.trainingSize).toBe(MIN_TRAINING_EXAMPLES - 2);
+    } finally {
+      unsubscribe();
+    }
+  }, TRAINING_TIMEOUT);
+
+  it('trains and evaluates on the smallest allowed dataset', async () => {
+    setTrainingDataset(listings(MIN_TRAINING_EXAMPLES));
+    const metadata = await trainNewModel();
+
+    expect(metadata.trainingSize).toBe(MIN_TRAINING_EXAMPLES - 2);
+    expect(metadata.evaluation?.overall.count).toBe(2);
+    expect(metadata.evaluation?.overall.mape).not.toBeNaN();
+  }, TRAINING_TIMEOUT);
+});
@@ -1,137 +1,893 @@
 import * as tf from '@tensorflow/tfjs';
-import type { HouseFeatures } from '../types';
+import type {
+  HouseFeatures,
+  TrainingExample,
+  ModelMetadata,
+  TrainingProgress,
+  TrainingDataSource,
+  PredictionResult,
+  EvaluationReport,
+  MarketAdjustment,
+  MarketIndex,
+  MarketIndexInfo,
+  MarketSettings,
+  PriceExplanation,
+  ComparablesResult,
+  CountryConfig,
+  Preprocessing,
+  Hyperparameters,
+  CandidateModel,
+  SerializedModel,
+  ValuationTarget,
+  NoveltyAssessment,
+  TrainingListings
+} from '../types';
+import {
+  attachModelMetadata,
+  readModelMetadata,
+  saveModelToStorage,
+  loadModelFromStorage,
+  serializeModel,
+  loadModelFromFiles,
+  loadModelFromArtifacts,
+  clearStoredModel,
+  getCountryModelName,
+  listStoredCountryModels,
+  RENT_MODEL_NAME
+} from './modelStorage';
+import { TrainingCancelledError } from './errors';
+import { buildEvaluationReport, isBetterReport } from './evaluation';
+import { DEFAULT_HYPERPARAMETERS, validateHyperparameters } from './hyperparameters';
+import { computeShapleyValues } from './explain';
+import { findComparables } from './comparables';
+import { assessNovelty, discountConfidence } from './novelty';
+import {
+  BUNDLED_MARKET_INDEX,
+  currentMonth,
+  describeMarketIndex,
+  getMarketIndexAdjustment
+} from './marketIndex';
+import {
+  DEFAULT_COUNTRY,
+  findCountry,
+  getCountryPriceMultiplier,
+  getModelCountry,
+  getStatePriceMultiplier,
+  getCityPremium,
+  getRegistryStates,
+  registerCountry
+} from './locations';
+import {
+  FEATURE_SCHEMA_VERSION,
+  INPUT_WIDTH,
+  FEATURE_COLUMNS,
+  PROPERTY_TYPES,
+  FURNISHING_TYPES,
+  LOCATION_TYPES,
+  featuresToVector,
+  getCarpetRatio
+} from './featureSchema';
+import type { FeatureScalers } from './featureSchema';
+import { toSquareFeet } from './areaUnits';
+import { fitPreprocessing, inverseTransformTarget, isValidPreprocessing, transformTarget } from './preprocessing';
+import { createSeededRandom, nextSeed } from './random';
+import { MIN_TRAINING_EXAMPLES } from './dataset';
+import { now, setClock as setSharedClock } from './clock';
 
-// Normalize values to a 0-1 range
-const normalizeValue = (value: number, min: number, max: number) => {
-  return (value - min) / (max - min);
+// Randomness behind synthetic data, holdout splits, batch order, initial weights and dropout
+// masks. Together with the clock it can be replaced so that a training run and the prices it
+// gives can be reproduced.
+let random: () => number = Math.random;
+
+// Draw from a seeded sequence from now on, or from Math.random again with null
+export const setRandomSeed = (seed: number | null) => {
+  random = seed === null ? Math.random : createSeededRandom(seed);
+  syntheticListings.clear();
 };
 
-// Convert location type to one-hot encoding
-const locationToVector = (location: string) => {
-  const locations = ['urban', 'suburban', 'rural'];
-  return locations.map(loc => loc === location ? 1 : 0);
+// Use a fixed or custom clock, or the system clock again with null
+export const setClock = (next: (() => Date) | null) => {
+  setSharedClock(next);
+  syntheticListings.clear();
 };
 
-// Convert state to embedding
-const stateToEmbedding = (state: string) => {
-  const stateEmbeddings: { [key: string]: number[] } = {
-    'Maharashtra': [0.8, 0.9, 0.85],
-    'Karnataka': [0.75, 0.85, 0.8],
-    'Delhi': [0.9, 0.95, 0.9],
-    'Tamil Nadu': [0.7, 0.8, 0.75],
-    'Gujarat': [0.65, 0.75, 0.7],
-  };
-  return stateEmbeddings[state] || [0.5, 0.5, 0.5];
+// Shuffle a copy of a list (Fisher–Yates) with the model's random source
+const shuffle = <T>(items: T[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
 };
 
-// Create and train the model
-const createModel = () => {
+// Create the network described by the hyperparameters
+const createModel = ({ layers, learningRate }: Hyperparameters) => {
   const model = tf.sequential();
 
-  // Input layer for numerical features
-  model.add(tf.layers.dense({
-    inputShape: [12], // size, bedrooms, bathrooms, yearBuilt, location(3), state(3), hasGarage, hasPool
-    units: 64,
-    activation: 'relu'
-  }));
-
-  // Hidden layers
-  model.add(tf.layers.dropout({ rate: 0.2 }));
-  model.add(tf.layers.dense({ units: 32, activation: 'relu' }));
-  model.add(tf.layers.dropout({ rate: 0.1 }));
-  model.add(tf.layers.dense({ units: 16, activation: 'relu' }));
+  // Hidden layers; the first takes one column per encoded feature in FEATURE_SCHEMA
+  layers.forEach((layer, i) => {
+    model.add(tf.layers.dense({
+      ...(i === 0 && { inputShape: [INPUT_WIDTH] }),
+      units: layer.units,
+      activation: 'relu',
+      kernelInitializer: tf.initializers.glorotUniform({ seed: nextSeed(random) })
+    }));
+    // Seeded like the weights, so dropout masks never come from Math.random. A layer draws the
+    // same masks on every call; batches are reshuffled each epoch, so listings still meet different ones.
+    if (layer.dropout > 0) {
+      model.add(tf.layers.dropout({ rate: layer.dropout, seed: nextSeed(random) }));
+    }
+  });
 
   // Output layer
-  model.add(tf.layers.dense({ units: 1 }));
+  model.add(tf.layers.dense({ units: 1, kernelInitializer: tf.initializers.glorotUniform({ seed: nextSeed(random) }) }));
 
   model.compile({
-    optimizer: tf.train.adam(0.001),
+    optimizer: tf.train.adam(learningRate),
     loss: 'meanSquaredError'
   });
 
   return model;
 };
 
-// Convert features to tensor input
-const featuresToTensor = (features: HouseFeatures) => {
-  const normalizedSize = normalizeValue(features.size, 100, 10000);
-  const normalizedBedrooms = normalizeValue(features.bedrooms, 1, 10);
-  const normalizedBathrooms = normalizeValue(features.bathrooms, 1, 8);
-  const normalizedYear = normalizeValue(features.yearBuilt, 1900, 2025);
-  
-  const locationVector = locationToVector(features.location);
-  const stateEmbedding = stateToEmbedding(features.state);
-
-  const inputArray = [
-    normalizedSize,
-    normalizedBedrooms,
-    normalizedBathrooms,
-    normalizedYear,
-    ...locationVector,
-    ...stateEmbedding,
-    features.hasGarage ? 1 : 0,
-    features.hasPool ? 1 : 0
-  ];
+// Column-wise mean of the input vectors, used as the "average listing" baseline
+const meanVector = (vectors: number[][]) => {
+  const sums = new Array(vectors[0]?.length ?? 0).fill(0);
+  vectors.forEach(vector => vector.forEach((value, i) => {
+    sums[i] += value;
+  }));
+  return sums.map(sum => sum / Math.max(1, vectors.length));
+};
 
-  return tf.tensor2d([inputArray]);
+// Column-wise standard deviation of the input vectors around their mean
+const spreadVector = (vectors: number[][], mean: number[]) => {
+  const squares = meanVector(vectors.map(vector => vector.map((value, i) => (value - mean[i]) ** 2)));
+  return squares.map(Math.sqrt);
+};
+
+// Convert one or more properties to tensor input, one row per property
+export const featuresToTensor = (features: HouseFeatures | HouseFeatures[], scalers: FeatureScalers) => {
+  const list = Array.isArray(features) ? features : [features];
+  return tf.tensor2d(list.map(item => featuresToVector(item, scalers)));
 };
 
 // Initialize and cache the model
 let cachedModel: tf.LayersModel | null = null;
+let cachedMetadata: ModelMetadata | null = null;
+let pendingModel: Promise<tf.LayersModel> | null = null;
+
+// Only the first initialization may reuse the model stored in the browser
+let restoreFromStorage = true;
+
+// Imported listings to train on; synthetic data is only used when this is empty
+let trainingDataset: TrainingExample[] = [];
+// Bumped whenever the listings are replaced, so a model still training on the old ones is dropped
+let trainingDatasetVersion = 0;
+
+// Synthetic listings by country, generated once so that retraining, evaluation baselines and
+// the insights dashboard all see the listings the model trained on. A new seed or clock clears them.
+const syntheticListings = new Map<string, TrainingExample[]>();
+
+// Examples held out from the last training run and used to evaluate models
+const HOLDOUT_FRACTION = 0.2;
+let holdoutSet: TrainingExample[] = [];
+
+// Training progress subscribers, and the training runs in progress with their cancel flags.
+// Price, rent, candidate and country models can train at once; each is cancelled on its own.
+const progressListeners = new Set<(progress: TrainingProgress) => void>();
+const runningTrainings = new Map<number, { cancelled: boolean }>();
+// Subscribers told how many training runs are in progress whenever one starts or ends
+const trainingCountListeners = new Set<(running: number) => void>();
+let nextTrainingId = 1;
+
+// Hyperparameters for retraining: those of the active model, or the defaults
+let activeHyperparameters: Hyperparameters = DEFAULT_HYPERPARAMETERS;
+
+// A model trained in the training console that has not been promoted yet, and its held-out set
+let candidate: { model: tf.LayersModel; metadata: ModelMetadata; holdout: TrainingExample[]; better: boolean } | null = null;
+let pendingCandidate: Promise<CandidateModel> | null = null;
+
+// The monthly rent model: same features, network and preprocessing as the price model,
+// trained on imported rental listings or synthetic rents
+let rentModel: tf.LayersModel | null = null;
+let rentMetadata: ModelMetadata | null = null;
+let pendingRentModel: Promise<tf.LayersModel> | null = null;
+let restoreRentFromStorage = true;
+let rentalDataset: TrainingExample[] = [];
+// Bumped whenever the rental listings are replaced, like trainingDatasetVersion
+let rentalDatasetVersion = 0;
+
+// Price models trained or imported for one country, keyed by the registry's country name.
+// Listings in countries without a location table of their own use the default model above.
+type CountryModel = { model: tf.LayersModel; metadata: ModelMetadata };
+const countryModels = new Map<string, CountryModel>();
+const pendingCountryModels = new Map<string, Promise<CountryModel>>();
+let countryModelsRestored: Promise<void> | null = null;
+
+// What a model is trained for: its target, the country it covers (none for the default
+// model) and whether its listings were imported or synthetic
+interface ModelScope {
+  target: ValuationTarget;
+  country?: string;
+  source: TrainingDataSource['source'];
+}
 
 const initializeModel = async () => {
-  if (!cachedModel) {
-    cachedModel = createModel();
-    
-    // Pre-train the model with some synthetic data
-    const syntheticData = generateSyntheticData(1000);
-    await trainModelWithSyntheticData(cachedModel, syntheticData);
+  if (cachedModel) return cachedModel;
+  if (!pendingModel) {
+    pendingModel = buildModel().finally(() => {
+      pendingModel = null;
+    });
   }
-  return cachedModel;
+  return pendingModel;
 };
 
-// Generate synthetic training data
-const generateSyntheticData = (count: number) => {
-  const data = [];
-  for (let i = 0; i < count; i++) {
-    const size = Math.random() * 9900 + 100; // 100 to 10000 sq ft
-    const bedrooms = Math.floor(Math.random() * 9) + 1; // 1 to 10
-    const bathrooms = Math.floor(Math.random() * 7) + 1; // 1 to 8
-    const yearBuilt = Math.floor(Math.random() * 125) + 1900; // 1900 to 2025
-    const locationIndex = Math.floor(Math.random() * 3);
-    const location = ['urban', 'suburban', 'rural'][locationIndex];
-    const states = ['Maharashtra', 'Karnataka', 'Delhi', 'Tamil Nadu', 'Gujarat'];
-    const state = states[Math.floor(Math.random() * states.length)];
-    const hasGarage = Math.random() > 0.5;
-    const hasPool = Math.random() > 0.7;
-
-    data.push({
-      features: {
-        size,
-        bedrooms,
-        bathrooms,
-        yearBuilt,
-        location,
-        state,
-        hasGarage,
-        hasPool,
-        city: 'synthetic',
-        country: 'India'
-      },
-      price: calculateSyntheticPrice({
-        size,
-        bedrooms,
-        bathrooms,
-        yearBuilt,
-        location,
-        state,
-        hasGarage,
-        hasPool,
-        city: 'synthetic',
-        country: 'India'
-      })
+// Load the stored model if it is compatible, otherwise train and store a new one
+const buildModel = async (): Promise<tf.LayersModel> => {
+  const version = trainingDatasetVersion;
+  if (restoreFromStorage) {
+    restoreFromStorage = false;
+    if (await restoreStoredModel()) {
+      if (version === trainingDatasetVersion) return cachedModel as tf.LayersModel;
+      discardModel();
+    }
+  }
+
+  // Train on the imported dataset, falling back to synthetic data,
+  // keeping a slice the model never sees for evaluation
+  const { examples, source } = getTrainingData();
+  const { train, test } = splitHoldout(examples);
+  const { model, metadata } = await fitModel(train, test, activeHyperparameters, { target: 'price', source });
+
+  // The listings were replaced while this model trained: drop it and train on the new ones
+  if (version !== trainingDatasetVersion) {
+    model.dispose();
+    return buildModel();
+  }
+
+  holdoutSet = test;
+  activateModel(model, metadata);
+  await persistModel(model);
+  return model;
+};
+
+// Imported listings valued by the default model (country null) or by one country's model
+const getCountryListings = (country: string | null) => {
+  return trainingDataset.filter(example => getModelCountry(example.features.country) === country);
+};
+
+// Listings to train a price model on, falling back to synthetic ones priced in the country's currency
+const getTrainingData = (country: string | null = null): TrainingListings => {
+  const listings = getCountryListings(country);
+  if (listings.length > 0) {
+    return { examples: listings, source: 'dataset' };
+  }
+
+  const key = country ?? DEFAULT_COUNTRY;
+  let synthetic = syntheticListings.get(key);
+  if (!synthetic) {
+    synthetic = generateSyntheticData(1000, 'price', key);
+    syntheticListings.set(key, synthetic);
+  }
+  return { examples: synthetic, source: 'synthetic' };
+};
+
+// Create, train and evaluate a model without activating it
+const fitModel = async (
+  train: TrainingExample[],
+  test: TrainingExample[],
+  hyperparameters: Hyperparameters,
+  scope: ModelScope
+) => {
+  // Scalers and the target transform come from the training split only, so the held-out
+  // evaluation sees exactly what inference will
+  const preprocessing = fitPreprocessing(train);
+  const model = createModel(hyperparameters);
+  let epochsTrained: number;
+  try {
+    epochsTrained = await trainModel(model, train, preprocessing, hyperparameters);
+  } catch (error) {
+    model.dispose();
+    throw error;
+  }
+
+  const evaluation = await evaluateModel(model, preprocessing, test) ?? undefined;
+  const inputs = train.map(example => featuresToVector(example.features, preprocessing.features));
+  const baseline = meanVector(inputs);
+  const metadata: ModelMetadata = {
+    ...createModelMetadata(scope, train.length, preprocessing, evaluation),
+    hyperparameters,
+    epochsTrained,
+    baseline,
+    inputSpread: spreadVector(inputs, baseline)
+  };
+  attachModelMetadata(model, metadata);
+  return { model, metadata };
+};
+
+const persistModel = async (model: tf.LayersModel, name?: string) => {
+  try {
+    await saveModelToStorage(model, name);
+  } catch (error) {
+    // Storage can be unavailable (private browsing, quota); the in-memory model still works
+    console.warn('Could not persist the model', error);
+  }
+};
+
+// Swap in a new active model, releasing the previous one
+const activateModel = (model: tf.LayersModel, metadata: ModelMetadata) => {
+  if (cachedModel && cachedModel !== model) {
+    cachedModel.dispose();
+  }
+  cachedModel = model;
+  cachedMetadata = metadata;
+  activeHyperparameters = metadata.hyperparameters ?? DEFAULT_HYPERPARAMETERS;
+};
+
+const createModelMetadata = (
+  { target, country, source }: ModelScope,
+  trainingSize: number,
+  preprocessing: Preprocessing,
+  evaluation?: EvaluationReport
+): ModelMetadata => {
+  return {
+    schemaVersion: FEATURE_SCHEMA_VERSION,
+    target,
+    ...(country && { country }),
+    preprocessing,
+    trainedAt: now().toISOString(),
+    trainingSource: source,
+    trainingSize,
+    // tfjs rejects metadata holding undefined values, so leave the key out instead
+    ...(evaluation && { evaluation })
+  };
+};
+
+// Reject datasets too small to train on and hold out listings from
+const checkTrainingSize = (count: number) => {
+  if (count < MIN_TRAINING_EXAMPLES) {
+    throw new Error(`At least ${MIN_TRAINING_EXAMPLES} listings are needed to train a model, but only ${count} were given`);
+  }
+};
+
+// Shuffle the examples and set aside a fraction as a held-out test set
+const splitHoldout = (data: TrainingExample[]) => {
+  checkTrainingSize(data.length);
+  const shuffled = shuffle(data);
+  const testSize = Math.floor(shuffled.length * HOLDOUT_FRACTION);
+  return { train: shuffled.slice(testSize), test: shuffled.slice(0, testSize) };
+};
+
+// Score a model on labelled examples using its raw output (before market adjustments)
+export const evaluateModel = async (
+  model: tf.LayersModel,
+  preprocessing: Preprocessing,
+  examples: TrainingExample[]
+): Promise<EvaluationReport | null> => {
+  if (examples.length === 0) return null;
+
+  const predicted = await predictVectors(
+    model,
+    preprocessing,
+    examples.map(example => featuresToVector(example.features, preprocessing.features))
+  );
+
+  return buildEvaluationReport(examples.map((example, i) => ({
+    features: example.features,
+    actual: example.price,
+    predicted: predicted[i]
+  })));
+};
+
+// Examples to evaluate against: this session's held-out set, or a fresh sample when none exists
+const getEvaluationSet = () => {
+  if (holdoutSet.length > 0) return holdoutSet;
+  const listings = getCountryListings(null);
+  return listings.length > 0 ? listings : generateSyntheticData(200);
+};
+
+// Listings behind the insights dashboard: the imported listings, or the synthetic ones the default
+// model trains on in this session. Synthetic listings are generated once, so repeat loads match.
+export const getMarketListings = (): TrainingListings => getTrainingData();
+
+// Nearest listings in the same country of the imported dataset, using the same feature scaling
+// as the model that values them (or scalers fitted to those listings before one has been trained)
+export const findComparableListings = (features: HouseFeatures, k?: number): ComparablesResult => {
+  const countryName = (value: string) => findCountry(value)?.name ?? value.trim();
+  const sameCountry = trainingDataset.filter(example => countryName(example.features.country) === countryName(features.country));
+  const modelCountry = getModelCountry(features.country);
+  const metadata = modelCountry === null ? cachedMetadata : countryModels.get(modelCountry)?.metadata;
+  const scalers = metadata?.preprocessing.features ?? fitPreprocessing(sameCountry).features;
+  const listings = sameCountry.map(example => ({ vector: featuresToVector(example.features, scalers), example }));
+  return findComparables(featuresToVector(features, scalers), toSquareFeet(features).size, listings, k);
+};
+
+// Preprocessing of the active model; only valid after initializeModel
+const getActivePreprocessing = () => (cachedMetadata as ModelMetadata).preprocessing;
+
+// Re-evaluate the active model on the held-out set, or on the given labelled examples
+export const evaluateActiveModel = async (examples?: TrainingExample[]): Promise<EvaluationReport | null> => {
+  const model = await initializeModel();
+  return evaluateModel(model, getActivePreprocessing(), examples ?? getEvaluationSet());
+};
+
+// Evaluate a model shared as files on the same held-out set, without activating it
+export const evaluateModelFiles = async (files: File[]): Promise<EvaluationReport | null> => {
+  const model = await loadModelFromFiles(files);
+  try {
+    const metadata = readModelMetadata(model);
+    if (!isCompatibleMetadata(metadata)) {
+      throw new Error('This model was trained on a different feature schema and cannot be evaluated');
+    }
+    if (metadata.country) {
+      throw new Error(`This model values ${metadata.country} listings and cannot be compared with the default model`);
+    }
+    return await evaluateModel(model, metadata.preprocessing, getEvaluationSet());
+  } finally {
+    model.dispose();
+  }
+};
+
+// A stored model is only usable if it predicts the wanted target, was trained on the
+// current feature encoding and carries the preprocessing fitted when it was trained
+const isCompatibleMetadata = (metadata: ModelMetadata | null, target: ValuationTarget = 'price'): metadata is ModelMetadata => {
+  return metadata !== null
+    && (metadata.target ?? 'price') === target
+    && metadata.schemaVersion === FEATURE_SCHEMA_VERSION
+    && isValidPreprocessing(metadata.preprocessing);
+};
+
+// Try to activate the model saved in browser storage; returns its metadata when it was usable.
+// Stored per-country models are restored alongside it.
+export const restoreStoredModel = async (): Promise<ModelMetadata | null> => {
+  restoreFromStorage = false;
+  await ensureCountryModelsRestored();
+  const model = await loadModelFromStorage();
+  if (!model) return null;
+
+  const metadata = readModelMetadata(model);
+  if (!isCompatibleMetadata(metadata)) {
+    model.dispose();
+    return null;
+  }
+
+  activateModel(model, metadata);
+  return metadata;
+};
+
+// Metadata of the active model, or of the model that values listings in the given country;
+// null while that model has not been loaded or trained
+export const getModelMetadata = (country?: string): ModelMetadata | null => {
+  const modelCountry = country ? getModelCountry(country) : null;
+  return modelCountry === null ? cachedMetadata : countryModels.get(modelCountry)?.metadata ?? null;
+};
+
+// Serialize the active model, or the model for a country, for download (training it first if needed)
+export const exportModel = async (country?: string) => {
+  const modelCountry = country ? getModelCountry(country) : null;
+  if (modelCountry) {
+    const { model } = await initializeCountryModel(modelCountry);
+    return serializeModel(model, getCountryModelName(modelCountry));
+  }
+  const model = await initializeModel();
+  return serializeModel(model);
+};
+
+// Discard the active model and train a fresh one on the current training data
+export const trainNewModel = async (): Promise<ModelMetadata> => {
+  if (!pendingModel) {
+    discardModel();
+  }
+  await initializeModel();
+  return cachedMetadata as ModelMetadata;
+};
+
+// Subscribe to per-epoch training progress; returns an unsubscribe function
+export const onTrainingProgress = (listener: (progress: TrainingProgress) => void) => {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+};
+
+// Subscribe to the number of training runs in progress; returns an unsubscribe function
+export const onTrainingCountChange = (listener: (running: number) => void) => {
+  trainingCountListeners.add(listener);
+  return () => {
+    trainingCountListeners.delete(listener);
+  };
+};
+
+const notifyTrainingCount = () => {
+  trainingCountListeners.forEach(listener => listener(runningTrainings.size));
+};
+
+// Ask a training run to stop after its current epoch; without an id, every running one stops
+export const cancelTraining = (trainingId?: number) => {
+  runningTrainings.forEach((run, id) => {
+    if (trainingId === undefined || id === trainingId) run.cancelled = true;
+  });
+};
+
+// Train a model with the given hyperparameters and measure it and the active model on the
+// same held-out listings. The new model only replaces the active one once promoted.
+export const trainCandidateModel = async (hyperparameters: Hyperparameters): Promise<CandidateModel> => {
+  const errors = validateHyperparameters(hyperparameters);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+  if (pendingModel || pendingCandidate) {
+    throw new Error('A model is already training');
+  }
+
+  pendingCandidate = fitCandidate(hyperparameters).finally(() => {
+    pendingCandidate = null;
+  });
+  return pendingCandidate;
+};
+
+const fitCandidate = async (hyperparameters: Hyperparameters): Promise<CandidateModel> => {
+  if (!cachedModel && restoreFromStorage) {
+    await restoreStoredModel();
+  }
+  discardCandidate();
+
+  // Reuse the active model's held-out set so both models are scored on listings neither saw
+  const version = trainingDatasetVersion;
+  const { examples, source } = getTrainingData();
+  const { train, test } = holdoutSet.length > 0
+    ? { train: examples.filter(example => !holdoutSet.includes(example)), test: holdoutSet }
+    : splitHoldout(examples);
+
+  const { model, metadata } = await fitModel(train, test, hyperparameters, { target: 'price', source });
+  if (version !== trainingDatasetVersion) {
+    model.dispose();
+    throw new Error('The training data changed while the model was training; train it again');
+  }
+  const baseline = cachedModel && cachedMetadata
+    ? await evaluateModel(cachedModel, cachedMetadata.preprocessing, test)
+    : null;
+  const better = !baseline || !metadata.evaluation || isBetterReport(baseline, metadata.evaluation);
+
+  candidate = { model, metadata, holdout: test, better };
+  return { metadata, baseline, better };
+};
+
+// Make the trained candidate the model used for predictions, if it beat the active one
+export const promoteCandidate = async (): Promise<ModelMetadata> => {
+  if (!candidate) {
+    throw new Error('There is no trained model to promote');
+  }
+  if (!candidate.better) {
+    throw new Error('The new model does not beat the current one');
+  }
+
+  const { model, metadata, holdout } = candidate;
+  candidate = null;
+  restoreFromStorage = false;
+  holdoutSet = holdout;
+  activateModel(model, metadata);
+  await persistModel(model);
+  return metadata;
+};
+
+// Throw away the trained candidate and keep the active model
+export const discardCandidate = () => {
+  candidate?.model.dispose();
+  candidate = null;
+};
+
+// Activate a model shared as model.json + weights files and store it for later visits
+export const importModel = async (files: File[]): Promise<ModelMetadata> => {
+  return activateImportedModel(await loadModelFromFiles(files));
+};
+
+// Activate a model serialized by exportModel, e.g. one read from disk by the CLI
+export const importSerializedModel = async (serialized: Pick<SerializedModel, 'modelJSON' | 'weightData'>): Promise<ModelMetadata> => {
+  return activateImportedModel(await loadModelFromArtifacts(serialized.modelJSON, serialized.weightData));
+};
+
+const activateImportedModel = async (model: tf.LayersModel) => {
+  const metadata = readModelMetadata(model);
+
+  if (!isCompatibleMetadata(metadata)) {
+    model.dispose();
+    throw new Error('This model was trained on a different feature schema and cannot be used');
+  }
+  if (metadata.country) {
+    const modelCountry = getModelCountry(metadata.country);
+    if (!modelCountry) {
+      model.dispose();
+      throw new Error(`Add the location table for ${metadata.country} before importing its model`);
+    }
+    const entry = { model, metadata: { ...metadata, country: modelCountry } };
+    await registerCountryModel(entry);
+    return entry.metadata;
+  }
+
+  restoreFromStorage = false;
+  activateModel(model, metadata);
+  await persistModel(model);
+  return metadata;
+};
+
+// Replace the training dataset and discard the model trained on the previous one
+export const setTrainingDataset = (examples: TrainingExample[]) => {
+  if (examples.length > 0) checkTrainingSize(examples.length);
+  trainingDataset = examples;
+  trainingDatasetVersion++;
+  holdoutSet = [];
+  discardCandidate();
+  discardModel();
+  discardCountryModels();
+  return getTrainingDataSource();
+};
+
+const discardModel = () => {
+  restoreFromStorage = false;
+  cachedModel?.dispose();
+  cachedModel = null;
+  cachedMetadata = null;
+};
+
+// Report whether predictions come from imported listings or the synthetic fallback
+export const getTrainingDataSource = (): TrainingDataSource => {
+  return trainingDataset.length > 0
+    ? { source: 'dataset', size: trainingDataset.length }
+    : { source: 'synthetic', size: 0 };
+};
+
+const initializeCountryModel = async (country: string): Promise<CountryModel> => {
+  await ensureCountryModelsRestored();
+  const registered = countryModels.get(country);
+  if (registered) return registered;
+
+  let pending = pendingCountryModels.get(country);
+  if (!pending) {
+    pending = buildCountryModel(country).finally(() => {
+      pendingCountryModels.delete(country);
+    });
+    pendingCountryModels.set(country, pending);
+  }
+  return pending;
+};
+
+// Train a price model for one country on its imported listings, or on synthetic ones
+const buildCountryModel = async (country: string): Promise<CountryModel> => {
+  const version = trainingDatasetVersion;
+  const { examples, source } = getTrainingData(country);
+  const { train, test } = splitHoldout(examples);
+  const entry = await fitModel(train, test, activeHyperparameters, { target: 'price', country, source });
+  if (version !== trainingDatasetVersion) {
+    entry.model.dispose();
+    return buildCountryModel(country);
+  }
+  await registerCountryModel(entry);
+  return entry;
+};
+
+// Use a model for its country from now on, replacing and releasing the previous one
+const registerCountryModel = async (entry: CountryModel) => {
+  const country = entry.metadata.country as string;
+  const previous = countryModels.get(country);
+  if (previous && previous.model !== entry.model) {
+    previous.model.dispose();
+  }
+  countryModels.set(country, entry);
+  await persistModel(entry.model, getCountryModelName(country));
+};
+
+// Load the per-country models kept in browser storage, once per session. Models for countries
+// whose location table has not been added (yet) are left in storage.
+const ensureCountryModelsRestored = () => {
+  countryModelsRestored ??= restoreCountryModels();
+  return countryModelsRestored;
+};
+
+const restoreCountryModels = async () => {
+  for (const name of await listStoredCountryModels()) {
+    const model = await loadModelFromStorage(name);
+    const metadata = model && readModelMetadata(model);
+    const country = metadata?.country ? getModelCountry(metadata.country) : null;
+    if (model && country && isCompatibleMetadata(metadata) && !countryModels.has(country)) {
+      countryModels.set(country, { model, metadata: { ...metadata, country } });
+    } else {
+      model?.dispose();
+    }
+  }
+};
+
+const discardCountryModels = () => {
+  countryModelsRestored = Promise.resolve();
+  countryModels.forEach(({ model }) => model.dispose());
+  countryModels.clear();
+};
+
+// Add a country's location table; a model stored for it on an earlier visit can then be restored
+export const addCountry = (config: CountryConfig) => {
+  registerCountry(config);
+  syntheticListings.delete(config.name);
+  countryModelsRestored = null;
+};
+
+// Train (or retrain) the price model for a country with a location table of its own
+export const trainCountryModel = async (country: string): Promise<ModelMetadata> => {
+  const modelCountry = getModelCountry(country);
+  if (!modelCountry) {
+    throw new Error(`${country} listings are valued by the default model`);
+  }
+  if (!pendingCountryModels.has(modelCountry)) {
+    await ensureCountryModelsRestored();
+    countryModels.get(modelCountry)?.model.dispose();
+    countryModels.delete(modelCountry);
+  }
+  return (await initializeCountryModel(modelCountry)).metadata;
+};
+
+// Drop a country's model, in memory and in storage, so its listings use a freshly trained one
+export const removeCountryModel = async (country: string) => {
+  const modelCountry = getModelCountry(country);
+  if (!modelCountry) return;
+  countryModels.get(modelCountry)?.model.dispose();
+  countryModels.delete(modelCountry);
+  await clearStoredModel(getCountryModelName(modelCountry));
+};
+
+// Metadata of every per-country model loaded or trained so far
+export const getCountryModels = (): ModelMetadata[] => {
+  return Array.from(countryModels.values(), ({ metadata }) => metadata);
+};
+
+const initializeRentModel = async () => {
+  if (rentModel) return rentModel;
+  if (!pendingRentModel) {
+    pendingRentModel = buildRentModel().finally(() => {
+      pendingRentModel = null;
     });
   }
+  return pendingRentModel;
+};
+
+// Load the stored rent model if it is compatible, otherwise train and store a new one
+const buildRentModel = async (): Promise<tf.LayersModel> => {
+  const version = rentalDatasetVersion;
+  if (restoreRentFromStorage) {
+    restoreRentFromStorage = false;
+    const stored = await loadModelFromStorage(RENT_MODEL_NAME);
+    const metadata = stored && readModelMetadata(stored);
+    if (stored && isCompatibleMetadata(metadata, 'rent') && version === rentalDatasetVersion) {
+      activateRentModel(stored, metadata);
+      return stored;
+    }
+    stored?.dispose();
+  }
+
+  const data = rentalDataset.length > 0 ? rentalDataset : generateSyntheticData(1000, 'rent');
+  const { train, test } = splitHoldout(data);
+  const { model, metadata } = await fitModel(train, test, DEFAULT_HYPERPARAMETERS, {
+    target: 'rent',
+    source: getRentalDataSource().source
+  });
+
+  // The rental listings were replaced while this model trained: drop it and train on the new ones
+  if (version !== rentalDatasetVersion) {
+    model.dispose();
+    return buildRentModel();
+  }
+
+  activateRentModel(model, metadata);
+  await persistModel(model, RENT_MODEL_NAME);
+  return model;
+};
+
+const activateRentModel = (model: tf.LayersModel, metadata: ModelMetadata) => {
+  if (rentModel && rentModel !== model) {
+    rentModel.dispose();
+  }
+  rentModel = model;
+  rentMetadata = metadata;
+};
+
+// Metadata of the rent model, or null while it has not been loaded or trained
+export const getRentModelMetadata = (): ModelMetadata | null => rentMetadata;
+
+// Replace the rental listings and discard the rent model trained on the previous ones
+export const setRentalDataset = (examples: TrainingExample[]) => {
+  if (examples.length > 0) checkTrainingSize(examples.length);
+  rentalDataset = examples;
+  rentalDatasetVersion++;
+  restoreRentFromStorage = false;
+  rentModel?.dispose();
+  rentModel = null;
+  rentMetadata = null;
+  return getRentalDataSource();
+};
+
+// Report whether rent estimates come from imported rental listings or synthetic rents
+export const getRentalDataSource = (): TrainingDataSource => {
+  return rentalDataset.length > 0
+    ? { source: 'dataset', size: rentalDataset.length }
+    : { source: 'synthetic', size: 0 };
+};
+
+// Market index used to move model prices to the valuation date
+let marketIndex: MarketIndex = BUNDLED_MARKET_INDEX;
+let marketIndexSource: MarketIndexInfo['source'] = 'bundled';
+let marketSettings: MarketSettings = { enabled: true, valuationDate: null };
+
+// Replace the market index with an imported one, or go back to the bundled index with null
+export const setMarketIndex = (index: MarketIndex | null) => {
+  marketIndex = index ?? BUNDLED_MARKET_INDEX;
+  marketIndexSource = index ? 'imported' : 'bundled';
+  return getMarketIndexInfo();
+};
+
+// Turn index adjustments on or off and choose the "as of" month (null for the current month)
+export const setMarketSettings = (settings: Partial<MarketSettings>) => {
+  marketSettings = { ...marketSettings, ...settings };
+  return getMarketIndexInfo();
+};
+
+export const getMarketIndexInfo = (): MarketIndexInfo => {
+  return { ...marketSettings, source: marketIndexSource, ...describeMarketIndex(marketIndex) };
+};
+
+// Pick a random element of a list
+const pick = <T>(options: T[]): T => options[Math.floor(random() * options.length)];
+
+// Generate synthetic training data for a country, labelled with sale prices or monthly rents
+const generateSyntheticData = (
+  count: number,
+  target: ValuationTarget = 'price',
+  country = DEFAULT_COUNTRY
+): TrainingExample[] => {
+  const data: TrainingExample[] = [];
+  const states = getRegistryStates(country);
+  for (let i = 0; i < count; i++) {
+    const size = random() * 9900 + 100; // 100 to 10000 sq ft
+    const bedrooms = Math.floor(random() * 9) + 1; // 1 to 10
+    const bathrooms = Math.floor(random() * 7) + 1; // 1 to 8
+    const yearBuilt = Math.floor(random() * (now().getFullYear() - 1899)) + 1900; // 1900 to this year
+    const location = pick(LOCATION_TYPES);
+    const stateConfig = pick(states);
+    const state = stateConfig.name;
+    const city = stateConfig.cities.length > 0 ? pick(stateConfig.cities).name : 'synthetic';
+    const hasGarage = random() > 0.5;
+    const hasPool = random() > 0.7;
+
+    // Apartments dominate; houses and villas are low-rise
+    const typeRoll = random();
+    const propertyType = PROPERTY_TYPES[typeRoll < 0.6 ? 0 : typeRoll < 0.85 ? 1 : 2];
+    const isApartment = propertyType === 'apartment';
+    const totalFloors = isApartment ? Math.floor(random() * 27) + 4 : Math.floor(random() * 3) + 1;
+    const floor = isApartment ? Math.floor(random() * (totalFloors + 1)) : 0;
+    const carpetArea = size * (isApartment ? 0.65 + random() * 0.2 : 0.8 + random() * 0.15);
+
+    const features: HouseFeatures = {
+      size,
+      carpetArea,
+      areaUnit: 'sqft',
+      bedrooms,
+      bathrooms,
+      propertyType,
+      floor,
+      totalFloors,
+      furnishing: pick(FURNISHING_TYPES),
+      yearBuilt,
+      location,
+      state,
+      hasGarage,
+      hasPool,
+      hasLift: isApartment && totalFloors > 4 ? random() > 0.1 : false,
+      hasPowerBackup: random() > 0.5,
+      isGatedSociety: random() > (propertyType === 'villa' ? 0.2 : 0.6),
+      isReraRegistered: random() > (yearBuilt >= 2017 ? 0.2 : 0.9),
+      city,
+      country
+    };
+    data.push({ features, price: target === 'rent' ? calculateSyntheticRent(features) : calculateSyntheticPrice(features) });
+  }
   return data;
 };
 
@@ -146,12 +902,15 @@ const calculateSyntheticPrice = (features: HouseFeatures) => {
     'suburban': 1.1,
     'rural': 0.9
   };
-  const stateMultipliers = {
-    'Maharashtra': 1.5,
-    'Karnataka': 1.4,
-    'Delhi': 1.6,
-    'Tamil Nadu': 1.3,
-    'Gujarat': 1.2
+  const propertyTypeMultipliers = {
+    'apartment': 1,
+    'independent-house': 1.1,
+    'villa': 1.25
+  };
+  const furnishingMultipliers = {
+    'unfurnished': 1,
+    'semi-furnished': 1.04,
+    'furnished': 1.08
   };
 
   let price = basePrice;
@@ -159,99 +918,334 @@ const calculateSyntheticPrice = (features: HouseFeatures) => {
   price += features.bedrooms * bedroomValue;
   price += features.bathrooms * bathroomValue;
   price *= locationMultipliers[features.location as keyof typeof locationMultipliers];
-  price *= stateMultipliers[features.state as keyof typeof stateMultipliers] || 1;
-  price += (2025 - features.yearBuilt) * 20000;
+  price += (now().getFullYear() - features.yearBuilt) * 20000;
   if (features.hasGarage) price += 400000;
   if (features.hasPool) price += 600000;
 
+  // Property type, usable area and amenities
+  price *= propertyTypeMultipliers[features.propertyType];
+  price *= furnishingMultipliers[features.furnishing];
+  price *= 0.8 + 0.3 * getCarpetRatio(features);
+  price += Math.min(features.floor, 15) * 15000;
+  if (features.hasLift) price += 150000;
+  if (features.hasPowerBackup) price += 100000;
+  if (features.isGatedSociety) price *= 1.08;
+  if (features.isReraRegistered) price *= 1.05;
+
+  // Regional price level and the country's currency come last, so every rupee amount above scales with them
+  price *= getStatePriceMultiplier(features.state, features.country);
+  price *= getCountryPriceMultiplier(features.country);
+
   // Add some random variation
-  price *= 0.9 + Math.random() * 0.2;
+  price *= 0.9 + random() * 0.2;
 
   return price;
 };
 
-// Train model with synthetic data
-const trainModelWithSyntheticData = async (model: tf.LayersModel, data: any[]) => {
-  const xs = tf.stack(data.map(d => featuresToTensor(d.features).dataSync()));
-  const ys = tf.tensor2d(data.map(d => [d.price]), [data.length, 1]);
+// Calculate synthetic monthly rent: a gross yield of roughly 2-4% a year on the synthetic
+// price, higher for apartments and furnished homes, lower for villas
+const calculateSyntheticRent = (features: HouseFeatures) => {
+  const annualYields = {
+    'apartment': 0.034,
+    'independent-house': 0.028,
+    'villa': 0.022
+  };
+  const furnishingPremiums = {
+    'unfurnished': 1,
+    'semi-furnished': 1.06,
+    'furnished': 1.15
+  };
 
-  await model.fit(xs, ys, {
-    epochs: 50,
-    batchSize: 32,
-    shuffle: true,
-    validationSplit: 0.2
-  });
+  let annualYield = annualYields[features.propertyType];
+  annualYield *= furnishingPremiums[features.furnishing];
+  if (features.location === 'urban') annualYield *= 1.1;
+
+  // Rents vary more between comparable homes than prices do
+  annualYield *= 0.85 + random() * 0.3;
 
-  xs.dispose();
-  ys.dispose();
+  return calculateSyntheticPrice(features) * annualYield / 12;
 };
 
-// Predict price using the trained model
-export const predictPriceWithAI = async (features: HouseFeatures): Promise<number> => {
-  const model = await initializeModel();
-  const inputTensor = featuresToTensor(features);
-  const prediction = model.predict(inputTensor) as tf.Tensor;
-  const price = (await prediction.data())[0];
-  
-  // Cleanup tensors
-  inputTensor.dispose();
-  prediction.dispose();
+// Share of the training listings set aside to monitor each epoch and stop early
+const VALIDATION_SPLIT = 0.2;
+
+// Train model on labelled examples, reporting progress after every epoch.
+// Returns the number of epochs run, which is lower than requested when training stopped early.
+const trainModel = async (
+  model: tf.LayersModel,
+  data: TrainingExample[],
+  preprocessing: Preprocessing,
+  { epochs, batchSize, earlyStopping }: Hyperparameters
+) => {
+  // The last fifth of the (already shuffled) listings validates every epoch; the rest are
+  // reshuffled before each epoch from the model's random source rather than by tfjs
+  const validationStart = Math.floor(data.length * (1 - VALIDATION_SPLIT));
+  const toTensors = (examples: TrainingExample[]): [tf.Tensor2D, tf.Tensor2D] => [
+    tf.tensor2d(examples.map(d => featuresToVector(d.features, preprocessing.features)), [examples.length, INPUT_WIDTH]),
+    tf.tensor2d(examples.map(d => [transformTarget(d.price, preprocessing.target)]), [examples.length, 1])
+  ];
+  const validationData = toTensors(data.slice(validationStart));
+  let epochsRun = 0;
+  let bestLoss = Infinity;
+  let epochsWithoutImprovement = 0;
+
+  const trainingId = nextTrainingId++;
+  const run = { cancelled: false };
+  runningTrainings.set(trainingId, run);
+  notifyTrainingCount();
+  try {
+    while (epochsRun < epochs && !run.cancelled) {
+      const [xs, ys] = toTensors(shuffle(data.slice(0, validationStart)));
+      try {
+        const { history } = await model.fit(xs, ys, { epochs: 1, batchSize, shuffle: false, validationData });
+        const valLoss = Number(history.val_loss[0]);
+        epochsRun++;
+        const progress: TrainingProgress = {
+          trainingId,
+          epoch: epochsRun,
+          totalEpochs: epochs,
+          loss: Number(history.loss[0]),
+          valLoss
+        };
+        progressListeners.forEach(listener => listener(progress));
+
+        // Stop once the validation loss stalls
+        if (valLoss < bestLoss) {
+          bestLoss = valLoss;
+          epochsWithoutImprovement = 0;
+        } else {
+          epochsWithoutImprovement++;
+        }
+        if (earlyStopping.enabled && epochsWithoutImprovement >= earlyStopping.patience) {
+          break;
+        }
+      } finally {
+        xs.dispose();
+        ys.dispose();
+      }
+
+      // Yield to the event loop so a cancel request can be received
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  } finally {
+    runningTrainings.delete(trainingId);
+    notifyTrainingCount();
+    validationData.forEach(tensor => tensor.dispose());
+  }
+
+  if (run.cancelled) {
+    throw new TrainingCancelledError();
+  }
+  return epochsRun;
+};
+
+// Number of stochastic forward passes used to estimate uncertainty
+const MC_DROPOUT_SAMPLES = 50;
+
+// Percentiles of the sampled predictions that bound the reported price range (80% interval)
+const INTERVAL_PERCENTILES: [number, number] = [0.1, 0.9];
+
+// Cap on rows per forward pass so large batches don't exhaust memory
+const MAX_ROWS_PER_PASS = 20000;
+
+// Run the network repeatedly with dropout active (Monte-Carlo dropout) in a single batch.
+// Returns the sampled prices for each input row.
+const sampleWithDropout = async (model: tf.LayersModel, target: Preprocessing['target'], input: tf.Tensor2D, samples: number) => {
+  const rows = input.shape[0];
+  const repeated = tf.tile(input, [samples, 1]);
+  const output = model.apply(repeated, { training: true }) as tf.Tensor;
+  const values = await output.data();
+
+  repeated.dispose();
+  output.dispose();
+
+  // Sample j of row i sits at j * rows + i after tiling
+  return Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: samples }, (_, j) => inverseTransformTarget(values[j * rows + i], target))
+  );
+};
+
+const percentile = (sorted: number[], p: number) => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+};
+
+// Turn a raw prediction and its dropout samples into an adjusted result with a range. Dropout
+// samples agree with each other far from the training data too, so confidence is discounted
+// by how novel the input is.
+const toPredictionResult = (
+  price: number,
+  samples: number[],
+  adjustments: MarketAdjustment[],
+  novelty: NoveltyAssessment
+): PredictionResult => {
+  const sorted = samples.sort((a, b) => a - b);
+  const low = Math.max(0, Math.min(price, percentile(sorted, INTERVAL_PERCENTILES[0])));
+  const high = Math.max(price, percentile(sorted, INTERVAL_PERCENTILES[1]));
 
   // Apply post-processing adjustments
-  const adjustedPrice = applyMarketAdjustments(price, features);
-  
-  return Math.round(adjustedPrice);
+  const [adjustedPrice, adjustedLow, adjustedHigh] = [price, low, high]
+    .map(value => Math.round(applyMarketAdjustments(value, adjustments)));
+
+  return {
+    price: adjustedPrice,
+    low: adjustedLow,
+    high: adjustedHigh,
+    confidence: discountConfidence(calculateConfidenceWithAI(adjustedPrice, adjustedLow, adjustedHigh), novelty),
+    adjustments,
+    novelty
+  };
+};
+
+// Run a model on many properties, batching them into as few forward passes as possible
+const predictWithRanges = async (
+  model: tf.LayersModel,
+  metadata: ModelMetadata,
+  featuresList: HouseFeatures[],
+  getAdjustments: (features: HouseFeatures) => MarketAdjustment[]
+): Promise<PredictionResult[]> => {
+  const { preprocessing } = metadata;
+  const chunkSize = Math.max(1, Math.floor(MAX_ROWS_PER_PASS / MC_DROPOUT_SAMPLES));
+  const results: PredictionResult[] = [];
+
+  for (let start = 0; start < featuresList.length; start += chunkSize) {
+    const chunk = featuresList.slice(start, start + chunkSize);
+    const inputTensor = featuresToTensor(chunk, preprocessing.features);
+    const prediction = model.predict(inputTensor) as tf.Tensor;
+    const prices = Array.from(await prediction.data(), value => inverseTransformTarget(value, preprocessing.target));
+    const samples = await sampleWithDropout(model, preprocessing.target, inputTensor, MC_DROPOUT_SAMPLES);
+
+    // Cleanup tensors
+    inputTensor.dispose();
+    prediction.dispose();
+
+    chunk.forEach((features, i) => {
+      results.push(toPredictionResult(prices[i], samples[i], getAdjustments(features), assessNovelty(features, metadata)));
+    });
+  }
+
+  return results;
+};
+
+// The model that values listings in a country (null: the default model) and its metadata
+const getPriceModel = async (country: string | null): Promise<CountryModel> => {
+  if (country !== null) return initializeCountryModel(country);
+  const model = await initializeModel();
+  return { model, metadata: cachedMetadata as ModelMetadata };
+};
+
+// Predict prices for many properties, each with the model for its country, keeping their order
+export const predictPricesWithAI = async (featuresList: HouseFeatures[]): Promise<PredictionResult[]> => {
+  const byCountry = new Map<string | null, number[]>();
+  featuresList.forEach((features, i) => {
+    const country = getModelCountry(features.country);
+    const indices = byCountry.get(country) ?? [];
+    indices.push(i);
+    byCountry.set(country, indices);
+  });
+
+  const results: PredictionResult[] = new Array(featuresList.length);
+  for (const [country, indices] of byCountry) {
+    const { model, metadata } = await getPriceModel(country);
+    const predicted = await predictWithRanges(model, metadata, indices.map(i => featuresList[i]), getMarketAdjustments);
+    indices.forEach((index, i) => {
+      results[index] = predicted[i];
+    });
+  }
+  return results;
+};
+
+// Predict monthly rents for many properties with the rent model. Only the city premium
+// applies: the market index tracks sale prices, not rents.
+export const predictRentsWithAI = async (featuresList: HouseFeatures[]): Promise<PredictionResult[]> => {
+  const elsewhere = featuresList.find(features => getModelCountry(features.country) !== null);
+  if (elsewhere) {
+    throw new Error(`Rent estimates are only available for ${DEFAULT_COUNTRY}, not ${elsewhere.country}`);
+  }
+  const model = await initializeRentModel();
+  return predictWithRanges(model, rentMetadata as ModelMetadata, featuresList, features => [getCityAdjustment(features)]);
+};
+
+// Predict the monthly rent of one property, training the rent model first if needed
+export const predictRentWithAI = async (features: HouseFeatures): Promise<PredictionResult> => {
+  const [result] = await predictRentsWithAI([features]);
+  return result;
+};
+
+// Predict price using the trained model, with an uncertainty range from MC dropout
+export const predictPriceWithAI = async (features: HouseFeatures): Promise<PredictionResult> => {
+  const [result] = await predictPricesWithAI([features]);
+  return result;
+};
+
+// City premium from the location registry (1 for unknown cities)
+const getCityAdjustment = (features: HouseFeatures): MarketAdjustment => ({
+  label: 'City premium',
+  multiplier: getCityPremium(features.city, features.state, features.country)
+});
+
+// Market-specific multipliers applied to the raw model output, in order
+const getMarketAdjustments = (features: HouseFeatures): MarketAdjustment[] => {
+  const adjustments: MarketAdjustment[] = [getCityAdjustment(features)];
+
+  // Price movement between the index base date and the valuation date
+  if (marketSettings.enabled) {
+    const valuationDate = marketSettings.valuationDate ?? currentMonth(now());
+    const indexAdjustment = getMarketIndexAdjustment(marketIndex, features, valuationDate);
+    if (indexAdjustment) adjustments.push(indexAdjustment);
+  }
+
+  return adjustments;
 };
 
 // Apply market-specific adjustments
-const applyMarketAdjustments = (price: number, features: HouseFeatures): number => {
-  // Apply city-specific premium
-  const cityPremiums: { [key: string]: number } = {
-    'Mumbai': 1.4,
-    'Bangalore': 1.3,
-    'Delhi': 1.35,
-    'Pune': 1.25,
-    'Chennai': 1.2
-  };
-  
-  let adjustedPrice = price;
-  
-  // Apply city premium if available
-  if (cityPremiums[features.city]) {
-    adjustedPrice *= cityPremiums[features.city];
-  }
-  
-  // Apply recent market trends (simulated)
-  const marketTrendMultiplier = 1.1; // Assuming 10% market growth
-  adjustedPrice *= marketTrendMultiplier;
-  
-  // Apply seasonal adjustments (simulated)
-  const month = new Date().getMonth();
-  const seasonalMultiplier = 1 + (Math.sin(month / 12 * 2 * Math.PI) * 0.05);
-  adjustedPrice *= seasonalMultiplier;
-  
-  return adjustedPrice;
-};
-
-// Calculate confidence score based on input features and model uncertainty
-export const calculateConfidenceWithAI = (features: HouseFeatures): number => {
-  let confidence = 85; // Base confidence
-
-  // Adjust confidence based on data completeness
-  confidence += features.size > 0 ? 2 : -5;
-  confidence += features.bedrooms > 0 ? 2 : -3;
-  confidence += features.bathrooms > 0 ? 2 : -3;
-  confidence += features.city ? 2 : -4;
-  confidence += features.state ? 2 : -4;
-  
-  // Adjust for location reliability
-  const reliableLocations = ['Mumbai', 'Bangalore', 'Delhi', 'Pune', 'Chennai'];
-  confidence += reliableLocations.includes(features.city) ? 3 : -2;
-  
-  // Adjust for data recency
-  const currentYear = new Date().getFullYear();
-  confidence -= Math.max(0, Math.floor((currentYear - features.yearBuilt) / 10));
-  
-  // Ensure confidence stays within reasonable bounds
-  return Math.min(95, Math.max(70, confidence));
-};
\ No newline at end of file
+const applyMarketAdjustments = (price: number, adjustments: MarketAdjustment[]): number => {
+  return adjustments.reduce((adjusted, step) => adjusted * step.multiplier, price);
+};
+
+// Run the deterministic model on many input vectors in a single batch, returning prices
+const predictVectors = async (model: tf.LayersModel, preprocessing: Preprocessing, vectors: number[][]) => {
+  const input = tf.tensor2d(vectors);
+  const output = model.predict(input) as tf.Tensor;
+  const values = Array.from(await output.data(), value => inverseTransformTarget(value, preprocessing.target));
+  input.dispose();
+  output.dispose();
+  return values;
+};
+
+// Break a prediction down into per-feature contributions (Shapley values against the
+// average training listing) followed by the effect of each market adjustment
+export const explainPriceWithAI = async (features: HouseFeatures): Promise<PriceExplanation> => {
+  const country = getModelCountry(features.country);
+  const { model, metadata } = await getPriceModel(country);
+  const { preprocessing } = metadata;
+  const input = featuresToVector(features, preprocessing.features);
+  const baseline = metadata.baseline
+    ?? meanVector((country === null ? getEvaluationSet() : getTrainingData(country).examples).map(example => featuresToVector(example.features, preprocessing.features)));
+
+  const { baseValue, contributions } = await computeShapleyValues(
+    input,
+    baseline,
+    FEATURE_COLUMNS,
+    rows => predictVectors(model, preprocessing, rows),
+    random
+  );
+  const modelPrice = baseValue + contributions.reduce((sum, c) => sum + c.value, 0);
+
+  let running = modelPrice;
+  const adjustments = getMarketAdjustments(features).map(step => {
+    const value = running * (step.multiplier - 1);
+    running += value;
+    return { ...step, value };
+  });
+
+  return { baseValue, contributions, modelPrice, adjustments, finalPrice: running };
+};
+
+// Convert the width of the prediction range into a 0-100 confidence score:
+// the narrower the range relative to the price, the higher the confidence
+export const calculateConfidenceWithAI = (price: number, low: number, high: number): number => {
+  if (price <= 0) return 0;
+  const relativeHalfWidth = (high - low) / (2 * price);
+  return Math.round(Math.min(100, Math.max(0, (1 - relativeHalfWidth) * 100)));
+};
@@ -0,0 +1,243 @@
+import type {
+  CandidateModel,
+  ComparablesResult,
+  CountryConfig,
+  EvaluationReport,
+  HouseFeatures,
+  Hyperparameters,
+  MarketIndex,
+  MarketIndexInfo,
+  MarketSettings,
+  ModelMetadata,
+  PredictionResult,
+  PriceExplanation,
+  TrainingDataSource,
+  TrainingExample,
+  TrainingListings,
+  TrainingProgress
+} from '../types';
+import type { ModelWorkerCalls, ModelWorkerCall, ModelWorkerRequest, ModelWorkerResponse } from '../workers/protocol';
+import { TrainingCancelledError } from './errors';
+import { downloadBlob } from './download';
+import { registerCountry as registerLocations } from './locations';
+
+interface PendingCall {
+  resolve: (result: never) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextCallId = 1;
+const pendingCalls = new Map<number, PendingCall>();
+const progressListeners = new Set<(progress: TrainingProgress) => void>();
+const trainingCountListeners = new Set<(running: number) => void>();
+
+// A worker that failed to load, crashed or sent an unreadable message answers no more calls:
+// fail every pending one and start a fresh worker on the next call
+const failWorker = (message: string) => {
+  worker?.terminate();
+  worker = null;
+  const failed = [...pendingCalls.values()];
+  pendingCalls.clear();
+  failed.forEach(pending => pending.reject(new Error(message)));
+  trainingCountListeners.forEach(listener => listener(0));
+};
+
+// Start the model worker on first use
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/model.worker.ts', import.meta.url), { type: 'module' });
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      failWorker(event.message ? `The model worker failed: ${event.message}` : 'The model worker failed to load');
+    };
+    worker.onmessageerror = () => {
+      failWorker('Could not read a message from the model worker');
+    };
+    worker.onmessage = (event: MessageEvent<ModelWorkerResponse>) => {
+      const message = event.data;
+
+      if (message.kind === 'progress') {
+        progressListeners.forEach(listener => listener(message.progress));
+        return;
+      }
+      if (message.kind === 'trainingCount') {
+        trainingCountListeners.forEach(listener => listener(message.running));
+        return;
+      }
+
+      const pending = pendingCalls.get(message.id);
+      if (!pending) return;
+      pendingCalls.delete(message.id);
+
+      if (message.kind === 'result') {
+        pending.resolve(message.result as never);
+      } else {
+        pending.reject(message.cancelled ? new TrainingCancelledError() : new Error(message.message));
+      }
+    };
+  }
+  return worker;
+};
+
+const post = (message: ModelWorkerRequest) => {
+  getWorker().postMessage(message);
+};
+
+// Send a request to the worker and wait for its result
+const call = <K extends ModelWorkerCall>(
+  type: K,
+  payload: ModelWorkerCalls[K]['payload']
+): Promise<ModelWorkerCalls[K]['result']> => {
+  const id = nextCallId++;
+  return new Promise((resolve, reject) => {
+    pendingCalls.set(id, { resolve, reject } as PendingCall);
+    post({ kind: 'call', id, type, payload } as ModelWorkerRequest);
+  });
+};
+
+// Predict price and confidence, training the model first if needed
+export const predictWithModel = (features: HouseFeatures): Promise<PredictionResult> => {
+  return call('predict', { features });
+};
+
+// Predict many properties in one batched call
+export const predictBatchWithModel = (featuresList: HouseFeatures[]): Promise<PredictionResult[]> => {
+  return call('predictBatch', { featuresList });
+};
+
+// Per-feature and market-adjustment breakdown of a prediction
+export const explainPrediction = (features: HouseFeatures): Promise<PriceExplanation> => {
+  return call('explain', { features });
+};
+
+// Nearest listings in the imported dataset and the price they suggest
+export const findComparables = (features: HouseFeatures, k?: number): Promise<ComparablesResult> => {
+  return call('comparables', { features, k });
+};
+
+// Replace the training dataset; the next prediction retrains
+export const setTrainingDataset = (examples: TrainingExample[]): Promise<TrainingDataSource> => {
+  return call('setDataset', { examples });
+};
+
+// Estimate the monthly rent, training the rent model first if needed
+export const predictRent = (features: HouseFeatures): Promise<PredictionResult> => {
+  return call('predictRent', { features });
+};
+
+// Replace the rental listings the rent model learns from; the next rent estimate retrains
+export const setRentalDataset = (examples: TrainingExample[]): Promise<TrainingDataSource> => {
+  return call('setRentalDataset', { examples });
+};
+
+// Activate the model saved by a previous visit, if it matches the current feature schema
+export const restoreStoredModel = (): Promise<ModelMetadata | null> => {
+  return call('restore', {});
+};
+
+// Train a fresh model on the current training data
+export const trainNewModel = (): Promise<ModelMetadata> => {
+  return call('train', {});
+};
+
+export const getModelMetadata = (country?: string): Promise<ModelMetadata | null> => {
+  return call('getMetadata', { country });
+};
+
+// Download the active model, or the model for a country, as model.json plus a weights file
+export const exportModel = async (country?: string) => {
+  const serialized = await call('exportModel', { country });
+  downloadBlob(new Blob([serialized.modelJSON], { type: 'application/json' }), serialized.modelFileName);
+  downloadBlob(new Blob([serialized.weightData], { type: 'application/octet-stream' }), serialized.weightsFileName);
+};
+
+export const importModel = (files: File[]): Promise<ModelMetadata> => {
+  return call('importModel', { files });
+};
+
+// Evaluate the active model on the held-out set
+export const evaluateModel = (): Promise<EvaluationReport | null> => {
+  return call('evaluate', {});
+};
+
+// Evaluate a model from model.json + weights files on the same held-out set, without activating it
+export const evaluateModelFiles = (files: File[]): Promise<EvaluationReport | null> => {
+  return call('evaluateFiles', { files });
+};
+
+// Use an imported market index, or the bundled one when index is null
+export const setMarketIndex = (index: MarketIndex | null): Promise<MarketIndexInfo> => {
+  return call('setMarketIndex', { index });
+};
+
+// Change the valuation date or switch market index adjustments on and off
+export const setMarketSettings = (settings: Partial<MarketSettings>): Promise<MarketIndexInfo> => {
+  return call('setMarketSettings', { settings });
+};
+
+export const getMarketIndex = (): Promise<MarketIndexInfo> => {
+  return call('getMarketIndex', {});
+};
+
+// Train a model with custom hyperparameters and compare it with the active one, without activating it
+export const trainCandidateModel = (hyperparameters: Hyperparameters): Promise<CandidateModel> => {
+  return call('trainCandidate', { hyperparameters });
+};
+
+// Make the last trained candidate the model used for predictions
+export const promoteCandidate = (): Promise<ModelMetadata> => {
+  return call('promoteCandidate', {});
+};
+
+export const discardCandidate = (): Promise<void> => {
+  return call('discardCandidate', {});
+};
+
+// Add a country's location table on this page and in the worker, which values its listings
+// with a model of its own from then on
+export const registerCountry = (config: CountryConfig): Promise<void> => {
+  registerLocations(config);
+  return call('registerCountry', { config });
+};
+
+// Train (or retrain) the model for a country with its own location table
+export const trainCountryModel = (country: string): Promise<ModelMetadata> => {
+  return call('trainCountryModel', { country });
+};
+
+// Drop a country's model so its listings use a freshly trained one
+export const removeCountryModel = (country: string): Promise<void> => {
+  return call('removeCountryModel', { country });
+};
+
+// Metadata of the per-country models loaded or trained so far
+export const getCountryModels = (): Promise<ModelMetadata[]> => {
+  return call('getCountryModels', {});
+};
+
+// Listings the default model trains on, for the insights dashboard
+export const getMarketListings = (): Promise<TrainingListings> => {
+  return call('getMarketListings', {});
+};
+
+// Stop a training run after its current epoch; without an id, every running one stops
+export const cancelTraining = (trainingId?: number) => {
+  post({ kind: 'cancelTraining', trainingId });
+};
+
+// Subscribe to per-epoch training progress; returns an unsubscribe function
+export const onTrainingProgress = (listener: (progress: TrainingProgress) => void) => {
+  progressListeners.add(listener);
+  return () => {
+    progressListeners.delete(listener);
+  };
+};
+
+// Subscribe to the number of training runs in progress in the worker; returns an unsubscribe function
+export const onTrainingCountChange = (listener: (running: number) => void) => {
+  trainingCountListeners.add(listener);
+  return () => {
+    trainingCountListeners.delete(listener);
+  };
+};
@@ -0,0 +1,130 @@
+import * as tf from '@tensorflow/tfjs';
+import type { ModelMetadata, SerializedModel } from '../types';
+
+// Storage and download name of each model; the rent model is kept next to the price model
+const MODEL_NAME = 'house-price-model';
+export const RENT_MODEL_NAME = 'house-rent-model';
+
+// Per-country models are stored as house-price-model-<country>, e.g. house-price-model-united-kingdom
+export const getCountryModelName = (country: string) => {
+  return `${MODEL_NAME}-${country.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+};
+
+const STORAGE_SCHEME = 'indexeddb://';
+const storageUrl = (name: string) => `${STORAGE_SCHEME}${name}`;
+
+// Outside the browser (e.g. the CLI) there is no IndexedDB and models live only in memory
+const hasBrowserStorage = () => typeof indexedDB !== 'undefined';
+
+// Attach metadata so it is written into model.json alongside the topology
+export const attachModelMetadata = (model: tf.LayersModel, metadata: ModelMetadata) => {
+  model.setUserDefinedMetadata(metadata);
+};
+
+// Read metadata back from a saved or imported model
+export const readModelMetadata = (model: tf.LayersModel): ModelMetadata | null => {
+  const metadata = model.getUserDefinedMetadata() as Partial<ModelMetadata> | undefined;
+  return metadata && typeof metadata.schemaVersion === 'number' ? metadata as ModelMetadata : null;
+};
+
+// Save the trained model to IndexedDB
+export const saveModelToStorage = async (model: tf.LayersModel, name = MODEL_NAME) => {
+  if (!hasBrowserStorage()) return;
+  await model.save(storageUrl(name));
+};
+
+// Load the model stored in IndexedDB, or null if nothing is stored
+export const loadModelFromStorage = async (name = MODEL_NAME): Promise<tf.LayersModel | null> => {
+  if (!hasBrowserStorage()) return null;
+  try {
+    const models = await tf.io.listModels();
+    if (!models[storageUrl(name)]) return null;
+    return await tf.loadLayersModel(storageUrl(name));
+  } catch {
+    return null;
+  }
+};
+
+// Remove the stored model so the next startup retrains
+export const clearStoredModel = async (name = MODEL_NAME) => {
+  if (!hasBrowserStorage()) return;
+  try {
+    await tf.io.removeModel(storageUrl(name));
+  } catch {
+    // Nothing stored
+  }
+};
+
+// Names of the per-country models stored in IndexedDB
+export const listStoredCountryModels = async (): Promise<string[]> => {
+  if (!hasBrowserStorage()) return [];
+  try {
+    const prefix = storageUrl(getCountryModelName(''));
+    return Object.keys(await tf.io.listModels())
+      .filter(url => url.startsWith(prefix))
+      .map(url => url.slice(STORAGE_SCHEME.length));
+  } catch {
+    return [];
+  }
+};
+
+// Serialize the model into the model.json + weights file pair written by tfjs downloads
+export const serializeModel = async (model: tf.LayersModel, name = MODEL_NAME): Promise<SerializedModel> => {
+  const weightsFileName = `${name}.weights.bin`;
+  let serialized: SerializedModel | null = null;
+
+  await model.save(tf.io.withSaveHandler(async artifacts => {
+    const modelJSON: tf.io.ModelJSON = {
+      modelTopology: artifacts.modelTopology as tf.io.ModelJSON['modelTopology'],
+      weightsManifest: [{ paths: [`./${weightsFileName}`], weights: artifacts.weightSpecs ?? [] }],
+      format: artifacts.format,
+      generatedBy: artifacts.generatedBy,
+      convertedBy: artifacts.convertedBy,
+      trainingConfig: artifacts.trainingConfig,
+      userDefinedMetadata: artifacts.userDefinedMetadata
+    };
+    const weightData = artifacts.weightData
+      ? new tf.io.CompositeArrayBuffer(artifacts.weightData).slice()
+      : new ArrayBuffer(0);
+
+    serialized = {
+      modelFileName: `${name}.json`,
+      modelJSON: JSON.stringify(modelJSON),
+      weightsFileName,
+      weightData
+    };
+    return { modelArtifactsInfo: tf.io.getModelArtifactsInfoForJSON(artifacts) };
+  }));
+
+  if (!serialized) {
+    throw new Error('Model could not be serialized');
+  }
+  return serialized;
+};
+
+// Load a model from files picked by the user (model.json and its weights)
+export const loadModelFromFiles = async (files: File[]): Promise<tf.LayersModel> => {
+  const jsonFile = files.find(file => file.name.toLowerCase().endsWith('.json'));
+  const weightFiles = files.filter(file => file !== jsonFile);
+
+  if (!jsonFile || weightFiles.length === 0) {
+    throw new Error('Select both the model .json file and its .bin weights file');
+  }
+
+  return tf.loadLayersModel(tf.io.browserFiles([jsonFile, ...weightFiles]));
+};
+
+// Load a model from the model.json text and weights written by serializeModel
+export const loadModelFromArtifacts = async (modelJSON: string, weightData: ArrayBuffer): Promise<tf.LayersModel> => {
+  const parsed = JSON.parse(modelJSON) as tf.io.ModelJSON;
+  return tf.loadLayersModel(tf.io.fromMemory({
+    modelTopology: parsed.modelTopology,
+    weightSpecs: parsed.weightsManifest.flatMap(group => group.weights),
+    weightData,
+    format: parsed.format,
+    generatedBy: parsed.generatedBy,
+    convertedBy: parsed.convertedBy,
+    trainingConfig: parsed.trainingConfig,
+    userDefinedMetadata: parsed.userDefinedMetadata
+  }));
+};
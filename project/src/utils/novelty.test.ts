@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { HouseFeatures, Preprocessing } from '../types';
+import { INPUT_WIDTH, featuresToVector } from './featureSchema';
+import { assessNovelty, discountConfidence, inputDistance, isLowReliability } from './novelty';
+
+const house: HouseFeatures = {
+  size: 1200,
+  carpetArea: 900,
+  bedrooms: 2,
+  bathrooms: 2,
+  propertyType: 'apartment',
+  floor: 5,
+  totalFloors: 12,
+  furnishing: 'semi-furnished',
+  location: 'urban',
+  city: 'Pune',
+  state: 'Maharashtra',
+  country: 'India',
+  yearBuilt: 2015,
+  hasGarage: true,
+  hasPool: false,
+  hasLift: true,
+  hasPowerBackup: true,
+  isGatedSociety: false,
+  isReraRegistered: true
+};
+
+const preprocessing: Preprocessing = {
+  features: {
+    size: { mean: 1500, std: 600, min: 400, max: 5000 },
+    bedrooms: { mean: 3, std: 1, min: 1, max: 6 },
+    bathrooms: { mean: 2, std: 1, min: 1, max: 5 },
+    yearBuilt: { mean: 2005, std: 10, min: 1970, max: 2025 },
+    floor: { mean: 5, std: 4, min: 0, max: 30 },
+    totalFloors: { mean: 10, std: 6, min: 1, max: 40 }
+  },
+  target: { mean: 15, std: 1 }
+};
+
+describe('assessNovelty', () => {
+  it('finds nothing novel in a typical listing', () => {
+    expect(assessNovelty(house, { preprocessing })).toEqual({ score: 0, reasons: [] });
+  });
+
+  it('flags values outside the training ranges, quoting areas in the listing unit', () => {
+    const novelty = assessNovelty({ ...house, size: 1000, areaUnit: 'sqm', bedrooms: 12 }, { preprocessing });
+    expect(novelty.reasons).toHaveLength(2);
+    expect(novelty.reasons[0]).toMatch(/Built-up area of 1000 sq m is above the 37–465 sq m range/);
+    expect(novelty.reasons[1]).toMatch(/Bedrooms of 12 is above/);
+    expect(isLowReliability(novelty)).toBe(true);
+  });
+
+  it('flags states and countries missing from the location table', () => {
+    const state = assessNovelty({ ...house, state: 'Atlantis', city: 'Poseidonia' }, { preprocessing });
+    expect(state.reasons).toEqual(['Atlantis is not in the location table, so the model assumes an average state']);
+    expect(state.score).toBe(40);
+
+    const country = assessNovelty({ ...house, country: 'Narnia' }, { preprocessing });
+    expect(country.reasons[0]).toMatch(/no location table for Narnia/);
+    expect(country.score).toBe(50);
+  });
+
+  it('only notes an unknown city', () => {
+    const novelty = assessNovelty({ ...house, city: 'Smallville' }, { preprocessing });
+    expect(novelty.reasons).toHaveLength(1);
+    expect(isLowReliability(novelty)).toBe(false);
+  });
+
+  it('flags inputs far from the training mean when the spread is known', () => {
+    const baseline = featuresToVector(house, preprocessing.features);
+    const inputSpread = new Array(INPUT_WIDTH).fill(0.1);
+    expect(assessNovelty(house, { preprocessing, baseline, inputSpread }).score).toBe(0);
+
+    const unusual = assessNovelty({ ...house, propertyType: 'villa', furnishing: 'furnished', hasPool: true }, { preprocessing, baseline, inputSpread });
+    expect(unusual.reasons[0]).toMatch(/combination of features is unusual/);
+    expect(unusual.score).toBeGreaterThan(0);
+  });
+});
+
+describe('inputDistance', () => {
+  it('is the root-mean-square z-score, capping columns that never varied', () => {
+    expect(inputDistance([1, -1], [0, 0], [1, 1])).toBeCloseTo(1);
+    expect(inputDistance([1, 0], [0, 0], [0, 1])).toBeCloseTo(Math.sqrt(50));
+  });
+});
+
+describe('discountConfidence', () => {
+  it('scales confidence down by the novelty score', () => {
+    expect(discountConfidence(80, { score: 25, reasons: [] })).toBe(60);
+    expect(discountConfidence(80, { score: 0, reasons: [] })).toBe(80);
+  });
+});
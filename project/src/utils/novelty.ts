@@ -0,0 +1,100 @@
+import type { HouseFeatures, ModelMetadata, NoveltyAssessment } from '../types';
+import { SCALED_FEATURES, FEATURE_LABELS, featuresToVector } from './featureSchema';
+import { DEFAULT_COUNTRY, findCity, findCountry, findState } from './locations';
+import { AREA_UNIT_LABELS, convertArea, getAreaUnit, toSquareFeet } from './areaUnits';
+
+// Scores at or above this get the low-reliability banner
+export const LOW_RELIABILITY_SCORE = 25;
+
+// Severity of each kind of novelty, from 0 (harmless) to 1 (the estimate means little)
+const UNKNOWN_COUNTRY_SEVERITY = 0.5;
+const UNKNOWN_STATE_SEVERITY = 0.4;
+const UNKNOWN_CITY_SEVERITY = 0.15;
+const OUT_OF_RANGE_SEVERITY = 0.25;
+
+// Typical listings sit about one standard deviation from the training mean across their inputs;
+// the distance severity rises from zero at TYPICAL_DISTANCE to one at EXTREME_DISTANCE
+const TYPICAL_DISTANCE = 2;
+const EXTREME_DISTANCE = 5;
+
+// Floor for a column's spread and cap on its z-score, so a column that never varied in
+// training (an unseen category) counts as very unusual rather than infinitely so
+const MIN_SPREAD = 0.05;
+const MAX_Z_SCORE = 10;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Root-mean-square z-score of the input vector against the training inputs' mean and spread
+export const inputDistance = (vector: number[], mean: number[], spread: number[]) => {
+  if (vector.length === 0 || vector.length !== mean.length || vector.length !== spread.length) return 0;
+  const squares = vector.map((value, i) => {
+    const z = Math.min(MAX_Z_SCORE, Math.abs(value - mean[i]) / Math.max(MIN_SPREAD, spread[i]));
+    return z * z;
+  });
+  return Math.sqrt(squares.reduce((sum, square) => sum + square, 0) / squares.length);
+};
+
+// Measure how unlike the model's training listings a property is: numeric values outside the
+// fitted ranges, states, cities and countries missing from the location table, and the overall
+// distance from the average training input. Each finding has a severity; the score combines
+// them as independent risks.
+export const assessNovelty = (
+  features: HouseFeatures,
+  metadata: Pick<ModelMetadata, 'preprocessing' | 'baseline' | 'inputSpread'>
+): NoveltyAssessment => {
+  const findings: { severity: number; reason: string }[] = [];
+  const add = (severity: number, reason: string) => findings.push({ severity: clamp(severity), reason });
+
+  // Ranges are fitted in square feet; reasons quote areas in the listing's unit
+  const unit = getAreaUnit(features);
+  const inSquareFeet = toSquareFeet(features);
+  const { preprocessing } = metadata;
+  SCALED_FEATURES.forEach(field => {
+    const scaler = preprocessing.features[field];
+    const value = inSquareFeet[field];
+    if (!scaler || !Number.isFinite(value) || (value >= scaler.min && value <= scaler.max)) return;
+    const width = Math.max(scaler.max - scaler.min, scaler.std, 1);
+    const excess = (value < scaler.min ? scaler.min - value : value - scaler.max) / width;
+    const [min, max] = [scaler.min, scaler.max].map(bound => Math.round(field === 'size' ? convertArea(bound, 'sqft', unit) : bound));
+    const label = FEATURE_LABELS[field] ?? field;
+    const suffix = field === 'size' ? ` ${AREA_UNIT_LABELS[unit]}` : '';
+    add(
+      OUT_OF_RANGE_SEVERITY + excess,
+      `${label} of ${features[field]}${suffix} is ${value < scaler.min ? 'below' : 'above'} the ${min}–${max}${suffix} range of the training listings`
+    );
+  });
+
+  if (!findCountry(features.country)) {
+    add(UNKNOWN_COUNTRY_SEVERITY, `There is no location table for ${features.country}, so it is valued like an average ${DEFAULT_COUNTRY} listing`);
+  } else if (!findState(features.state, features.country)) {
+    add(UNKNOWN_STATE_SEVERITY, `${features.state || 'The state'} is not in the location table, so the model assumes an average state`);
+  } else if (!findCity(features.city, features.state, features.country)) {
+    add(UNKNOWN_CITY_SEVERITY, `${features.city || 'The city'} is not in the location table, so no city premium is applied`);
+  }
+
+  if (metadata.baseline && metadata.inputSpread) {
+    const distance = inputDistance(featuresToVector(features, preprocessing.features), metadata.baseline, metadata.inputSpread);
+    if (distance > TYPICAL_DISTANCE) {
+      add(
+        (distance - TYPICAL_DISTANCE) / (EXTREME_DISTANCE - TYPICAL_DISTANCE),
+        `This combination of features is unusual: ${distance.toFixed(1)} standard deviations from the average training listing`
+      );
+    }
+  }
+
+  const reliability = findings.reduce((product, finding) => product * (1 - finding.severity), 1);
+  return {
+    score: Math.round((1 - reliability) * 100),
+    reasons: findings.map(finding => finding.reason)
+  };
+};
+
+// Scale a confidence score down by the novelty of the input it was computed for
+export const discountConfidence = (confidence: number, novelty: NoveltyAssessment) => {
+  return Math.round(confidence * (1 - novelty.score / 100));
+};
+
+// Whether a result is novel enough to warn that its estimate is unreliable
+export const isLowReliability = (novelty: NoveltyAssessment | undefined) => {
+  return (novelty?.score ?? 0) >= LOW_RELIABILITY_SCORE;
+};
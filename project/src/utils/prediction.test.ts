@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { formatCompactIndianPrice, formatIndianPrice } from './prediction';
+
+describe('formatIndianPrice', () => {
+  it('groups digits in lakhs and crores', () => {
+    expect(formatIndianPrice(4500000)).toBe('₹45,00,000');
+    expect(formatIndianPrice(123456789)).toBe('₹12,34,56,789');
+  });
+
+  it('rounds to whole rupees', () => {
+    expect(formatIndianPrice(999.6)).toBe('₹1,000');
+  });
+});
+
+describe('formatCompactIndianPrice', () => {
+  it('abbreviates to lakhs and crores', () => {
+    expect(formatCompactIndianPrice(4500000)).toBe('₹45L');
+    expect(formatCompactIndianPrice(12300000)).toBe('₹1.23Cr');
+  });
+});
@@ -1,19 +1,19 @@
-import type { HouseFeatures } from '../types';
-import { predictPriceWithAI, calculateConfidenceWithAI } from './model';
+import type { HouseFeatures, PredictionResult } from '../types';
+import { predictWithModel, predictBatchWithModel } from './modelClient';
+import { formatCompactPrice, formatPrice } from './priceFormat';
 
-export async function predictPrice(features: HouseFeatures): Promise<number> {
-  return await predictPriceWithAI(features);
+export async function predictPrice(features: HouseFeatures): Promise<PredictionResult> {
+  return await predictWithModel(features);
 }
 
-export function calculateConfidence(features: HouseFeatures): number {
-  return calculateConfidenceWithAI(features);
+export async function predictPrices(featuresList: HouseFeatures[]): Promise<PredictionResult[]> {
+  return featuresList.length > 0 ? await predictBatchWithModel(featuresList) : [];
 }
 
 export function formatIndianPrice(price: number): string {
-  const formatter = new Intl.NumberFormat('en-IN', {
-    style: 'currency',
-    currency: 'INR',
-    maximumFractionDigits: 0
-  });
-  return formatter.format(price);
-}
\ No newline at end of file
+  return formatPrice(price, 'India');
+}
+
+export function formatCompactIndianPrice(price: number): string {
+  return formatCompactPrice(price, 'India');
+}
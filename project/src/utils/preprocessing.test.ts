@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { TrainingExample } from '../types';
+import { createDefaultFeatures } from './featureSchema';
+import { fitPreprocessing, inverseTransformTarget, isValidPreprocessing, transformTarget } from './preprocessing';
+
+const example = (size: number, price: number): TrainingExample => ({
+  features: { ...createDefaultFeatures(), size, bedrooms: 2, bathrooms: 1, yearBuilt: 2000 },
+  price
+});
+
+describe('fitPreprocessing', () => {
+  const preprocessing = fitPreprocessing([example(1000, 4e6), example(2000, 9e6), example(3000, 16e6)]);
+
+  it('fits mean, std and range of each scaled feature', () => {
+    const size = preprocessing.features.size;
+    expect(size.mean).toBe(2000);
+    expect(size.std).toBeCloseTo(Math.sqrt(2e6 / 3));
+    expect([size.min, size.max]).toEqual([1000, 3000]);
+  });
+
+  it('gives constant columns a unit std', () => {
+    expect(preprocessing.features.bedrooms).toEqual({ mean: 2, std: 1, min: 2, max: 2 });
+  });
+
+  it('standardizes the log price and inverts it exactly', () => {
+    const transformed = [4e6, 9e6, 16e6].map(price => transformTarget(price, preprocessing.target));
+    expect(transformed.reduce((sum, value) => sum + value, 0)).toBeCloseTo(0);
+    expect(inverseTransformTarget(transformed[1], preprocessing.target)).toBeCloseTo(9e6, 2);
+  });
+
+  it('produces preprocessing that passes validation', () => {
+    expect(isValidPreprocessing(preprocessing)).toBe(true);
+  });
+});
+
+describe('isValidPreprocessing', () => {
+  it('rejects preprocessing with a missing scaler or a zero std', () => {
+    const preprocessing = fitPreprocessing([example(1000, 4e6), example(2000, 9e6)]);
+    const withoutSize = Object.fromEntries(Object.entries(preprocessing.features).filter(([feature]) => feature !== 'size'));
+    expect(isValidPreprocessing({ ...preprocessing, features: withoutSize })).toBe(false);
+    expect(isValidPreprocessing({ ...preprocessing, target: { mean: 15, std: 0 } })).toBe(false);
+    expect(isValidPreprocessing(null)).toBe(false);
+  });
+});
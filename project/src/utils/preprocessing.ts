@@ -0,0 +1,52 @@
+import type { FeatureScaler, Preprocessing, TrainingExample } from '../types';
+import { SCALED_FEATURES } from './featureSchema';
+
+// Mean and standard deviation of a list of values; a constant column gets a unit std
+const fitScaler = (values: number[]): FeatureScaler => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length);
+  return {
+    mean,
+    std: Math.sqrt(variance) || 1,
+    min: values.reduce((min, value) => Math.min(min, value), Infinity),
+    max: values.reduce((max, value) => Math.max(max, value), -Infinity)
+  };
+};
+
+// Fit the feature scalers and the log-price target transform to a training set
+export const fitPreprocessing = (examples: TrainingExample[]): Preprocessing => {
+  const features = Object.fromEntries(SCALED_FEATURES.map(feature => [
+    feature,
+    fitScaler(examples.map(example => example.features[feature]))
+  ]));
+  const { mean, std } = fitScaler(examples.map(example => Math.log(example.price)));
+  return { features, target: { mean, std } };
+};
+
+// Price to the value the network is trained to predict
+export const transformTarget = (price: number, target: Preprocessing['target']) => {
+  return (Math.log(price) - target.mean) / target.std;
+};
+
+// Network output back to a price
+export const inverseTransformTarget = (value: number, target: Preprocessing['target']) => {
+  return Math.exp(value * target.std + target.mean);
+};
+
+const isScaler = (value: unknown): value is FeatureScaler => {
+  const scaler = value as FeatureScaler | undefined;
+  return typeof scaler === 'object' && scaler !== null
+    && [scaler.mean, scaler.std, scaler.min, scaler.max].every(Number.isFinite)
+    && scaler.std > 0;
+};
+
+// Check preprocessing read back from a stored or imported model covers every scaled feature
+export const isValidPreprocessing = (value: unknown): value is Preprocessing => {
+  const preprocessing = value as Preprocessing | undefined;
+  return typeof preprocessing === 'object' && preprocessing !== null
+    && typeof preprocessing.features === 'object' && preprocessing.features !== null
+    && SCALED_FEATURES.every(feature => isScaler(preprocessing.features[feature]))
+    && Number.isFinite(preprocessing.target?.mean)
+    && Number.isFinite(preprocessing.target?.std)
+    && preprocessing.target.std > 0;
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { formatCompactPrice, formatPrice } from './priceFormat';
+
+describe('formatPrice', () => {
+  it('uses the currency and digit grouping of the country', () => {
+    expect(formatPrice(450000, 'United Kingdom')).toBe('£450,000');
+    expect(formatPrice(4500000, 'UAE')).toMatch(/^AED\s4,500,000$/);
+  });
+
+  it('falls back to rupees for countries without a location table', () => {
+    expect(formatPrice(4500000, 'Atlantis')).toBe('₹45,00,000');
+  });
+
+  it('abbreviates in the country\'s own style', () => {
+    expect(formatCompactPrice(450000, 'United Kingdom')).toBe('£450K');
+    expect(formatCompactPrice(4500000)).toBe('₹45L');
+  });
+});
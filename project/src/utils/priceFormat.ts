@@ -0,0 +1,24 @@
+import { DEFAULT_COUNTRY, getCountrySettings } from './locations';
+
+// Price in the currency and number format of the listing's country, e.g. "₹45,00,000" or "£450,000"
+export function formatPrice(price: number, country: string = DEFAULT_COUNTRY): string {
+  const { currency, locale } = getCountrySettings(country);
+  const formatter = new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0
+  });
+  return formatter.format(price);
+}
+
+// Short form such as "₹45L", "₹1.23Cr" or "£450K" for chart labels
+export function formatCompactPrice(price: number, country: string = DEFAULT_COUNTRY): string {
+  const { currency, locale } = getCountrySettings(country);
+  const formatter = new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumSignificantDigits: 3
+  });
+  return formatter.format(price);
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom, nextSeed } from './random';
+
+describe('createSeededRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(7);
+    const b = createSeededRandom(7);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(Array.from({ length: 5 }, createSeededRandom(8))).not.toEqual(first);
+  });
+
+  it('stays within [0, 1)', () => {
+    const random = createSeededRandom(123);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('derives integer seeds', () => {
+    expect(Number.isInteger(nextSeed(createSeededRandom(1)))).toBe(true);
+  });
+});
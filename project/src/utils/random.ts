@@ -0,0 +1,15 @@
+// Seedable pseudo-random numbers in [0, 1) (mulberry32), a drop-in for Math.random
+// wherever training data, splits or weights must be reproducible
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A 32-bit integer seed drawn from a random source, for seeding tfjs initializers
+export const nextSeed = (random: () => number) => Math.floor(random() * 4294967296);
@@ -0,0 +1,37 @@
+import type { RentalYield, YieldAssumptions } from '../types';
+
+// Typical costs for an Indian residential letting
+export const DEFAULT_YIELD_ASSUMPTIONS: YieldAssumptions = {
+  maintenancePercent: 10,
+  vacancyMonths: 1
+};
+
+const clamp = (value: number, min: number, max: number) => {
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : min;
+};
+
+// Gross and net rental yield (percent a year) and the price-to-rent ratio (years of gross rent)
+export const analyzeRentalYield = (
+  price: number,
+  monthlyRent: number,
+  assumptions: YieldAssumptions = DEFAULT_YIELD_ASSUMPTIONS
+): RentalYield => {
+  const maintenancePercent = clamp(assumptions.maintenancePercent, 0, 100);
+  const vacancyMonths = clamp(assumptions.vacancyMonths, 0, 12);
+
+  const annualRent = monthlyRent * 12;
+  const vacancyLoss = monthlyRent * vacancyMonths;
+  const maintenanceCost = annualRent * maintenancePercent / 100;
+  const netAnnualIncome = annualRent - vacancyLoss - maintenanceCost;
+
+  return {
+    monthlyRent,
+    annualRent,
+    vacancyLoss,
+    maintenanceCost,
+    netAnnualIncome,
+    grossYield: price > 0 ? annualRent / price * 100 : 0,
+    netYield: price > 0 ? netAnnualIncome / price * 100 : 0,
+    priceToRent: annualRent > 0 ? price / annualRent : Infinity
+  };
+};
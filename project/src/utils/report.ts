@@ -0,0 +1,119 @@
+import type { HouseFeatures, MarketSettings, ModelMetadata, PredictionResult, PriceExplanation } from '../types';
+import { FEATURE_LABELS } from './featureSchema';
+import { formatMonth } from './marketIndex';
+import { formatPrice } from './priceFormat';
+import { AREA_UNIT_LABELS, getAreaUnit } from './areaUnits';
+import { isLowReliability } from './novelty';
+
+export interface ValuationReport {
+  features: HouseFeatures;
+  prediction: PredictionResult;
+  explanation: PriceExplanation | null;
+  market: MarketSettings;
+  metadata: ModelMetadata | null;
+  link: string;
+  generatedAt: Date;
+}
+
+const escapeHTML = (value: string) => {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+const formatValue = (value: HouseFeatures[keyof HouseFeatures]) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const formatDelta = (value: number, country: string) => `${value >= 0 ? '+' : '−'}${formatPrice(Math.abs(value), country)}`;
+
+const tableRows = (rows: [string, string][]) => {
+  return rows.map(([label, value]) => `<tr><th>${escapeHTML(label)}</th><td>${escapeHTML(value)}</td></tr>`).join('');
+};
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1f2937; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  .muted { color: #6b7280; font-size: 0.875rem; }
+  .price { font-size: 2rem; font-weight: 700; color: #4f46e5; margin: 0.5rem 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #f3f4f6; }
+  td.amount { text-align: right; }
+  a { color: #4f46e5; word-break: break-all; }
+  @media print { body { margin: 0; } }
+`;
+
+// A self-contained printable HTML page with the inputs, result, breakdown and model details
+export const buildValuationReport = ({ features, prediction, explanation, market, metadata, link, generatedAt }: ValuationReport) => {
+  const location = [features.city, features.state, features.country].filter(Boolean).join(', ');
+  const inputs: [string, string][] = [
+    ['Location', location],
+    ['Area unit', AREA_UNIT_LABELS[getAreaUnit(features)]],
+    ...(Object.keys(FEATURE_LABELS) as (keyof HouseFeatures)[]).map(field => [FEATURE_LABELS[field] ?? field, formatValue(features[field])] as [string, string])
+  ];
+  const { novelty } = prediction;
+  const reliability: [string, string][] = novelty && isLowReliability(novelty)
+    ? [['Reliability', `Low (novelty ${novelty.score}/100): ${novelty.reasons.join('; ')}`]]
+    : [];
+  const asOf = market.enabled && market.valuationDate ? formatMonth(market.valuationDate) : 'No market index adjustment';
+  const model = metadata
+    ? `Trained ${new Date(metadata.trainedAt).toLocaleString()} on ${metadata.trainingSize} ${metadata.trainingSource === 'dataset' ? 'imported listings' : 'synthetic samples'} (feature schema v${metadata.schemaVersion})`
+    : 'Unknown';
+
+  const breakdown = explanation
+    ? `
+      <h2>Price breakdown</h2>
+      <table>
+        <tr><th>Average listing</th><td class="amount">${formatPrice(explanation.baseValue, features.country)}</td></tr>
+        ${[...explanation.contributions]
+          .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+          .map(c => `<tr><td>${escapeHTML(FEATURE_LABELS[c.feature] ?? c.feature)}</td><td class="amount">${formatDelta(c.value, features.country)}</td></tr>`)
+          .join('')}
+        <tr><th>Model estimate</th><td class="amount">${formatPrice(explanation.modelPrice, features.country)}</td></tr>
+        ${explanation.adjustments
+          .map(a => `<tr><td>${escapeHTML(a.detail ? `${a.label} (${a.detail})` : a.label)}</td><td class="amount">${formatDelta(a.value, features.country)}</td></tr>`)
+          .join('')}
+        <tr><th>Predicted price</th><td class="amount">${formatPrice(explanation.finalPrice, features.country)}</td></tr>
+      </table>`
+    : '';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Valuation report – ${escapeHTML(location)}</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>Property valuation report</h1>
+  <p class="muted">Generated ${escapeHTML(generatedAt.toLocaleString())}</p>
+
+  <h2>Valuation</h2>
+  <p class="price">${formatPrice(prediction.price, features.country)}</p>
+  <table>${tableRows([
+    ['Likely range', `${formatPrice(prediction.low, features.country)} – ${formatPrice(prediction.high, features.country)}`],
+    ['Confidence', `${prediction.confidence}%`],
+    ...reliability,
+    ['Valued as of', asOf],
+    ['Model', model]
+  ])}</table>
+
+  <h2>Property details</h2>
+  <table>${tableRows(inputs)}</table>
+  ${breakdown}
+
+  <h2>Online version</h2>
+  <p class="muted">Open this link to see the valuation with the current model: <a href="${escapeHTML(link)}">${escapeHTML(link)}</a></p>
+  <script>window.addEventListener('load', () => window.print());</script>
+</body>
+</html>
+`;
+};
+
+// Open the report in a new tab, where it brings up the print dialog (which can save as PDF)
+export const openValuationReport = (report: ValuationReport) => {
+  const url = URL.createObjectURL(new Blob([buildValuationReport(report)], { type: 'text/html' }));
+  const opened = window.open(url, '_blank');
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return opened !== null;
+};
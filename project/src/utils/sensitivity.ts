@@ -0,0 +1,115 @@
+import type { HouseFeatures, PredictionResult } from '../types';
+import { PROPERTY_TYPES, FURNISHING_TYPES, LOCATION_TYPES } from './featureSchema';
+import { validateHouseFeatures } from './validation';
+import { predictPrices } from './prediction';
+
+// Fields that can be swept; location names are left out because they are not ordered,
+// and the area unit because it only changes how the size is quoted
+export type SweepField = Exclude<keyof HouseFeatures, 'city' | 'state' | 'country' | 'areaUnit'>;
+
+export type SweepValue = HouseFeatures[SweepField];
+
+export interface SweepRange {
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface SensitivityAxis {
+  field: SweepField;
+  values: SweepValue[];
+}
+
+export interface SensitivityGrid {
+  x: SensitivityAxis;
+  y: SensitivityAxis | null;
+  // results[row][column], with one row per y value (a single row without a y axis)
+  results: (PredictionResult | null)[][];
+}
+
+type NumericField = 'size' | 'carpetArea' | 'bedrooms' | 'bathrooms' | 'yearBuilt' | 'floor' | 'totalFloors';
+
+// Ranges this short are swept one unit at a time
+const MAX_WHOLE_STEPS = 12;
+
+const NUMERIC_FIELDS: NumericField[] = ['size', 'carpetArea', 'bedrooms', 'bathrooms', 'yearBuilt', 'floor', 'totalFloors'];
+
+const FLAG_FIELDS: SweepField[] = ['hasGarage', 'hasPool', 'hasLift', 'hasPowerBackup', 'isGatedSociety', 'isReraRegistered'];
+
+// Every sweepable field, in the order the explorer offers them
+export const SWEEP_FIELDS: SweepField[] = [...NUMERIC_FIELDS, 'propertyType', 'furnishing', 'location', ...FLAG_FIELDS];
+
+const CATEGORY_VALUES: { [K in SweepField]?: readonly SweepValue[] } = {
+  propertyType: PROPERTY_TYPES,
+  furnishing: FURNISHING_TYPES,
+  location: LOCATION_TYPES
+};
+
+export const isNumericField = (field: SweepField): field is NumericField => {
+  return (NUMERIC_FIELDS as SweepField[]).includes(field);
+};
+
+// A sensible range around the current property for each numeric field
+export const defaultSweepRange = (field: NumericField, features: HouseFeatures, steps = 9): SweepRange => {
+  const currentYear = new Date().getFullYear();
+  switch (field) {
+    case 'size':
+      return { min: Math.round(features.size * 0.5), max: Math.round(features.size * 1.5), steps };
+    case 'carpetArea':
+      return { min: Math.round(features.size * 0.5), max: features.size, steps };
+    case 'bedrooms':
+      return { min: 1, max: Math.max(6, features.bedrooms), steps: Math.max(6, features.bedrooms) };
+    case 'bathrooms':
+      return { min: 1, max: Math.max(5, features.bathrooms), steps: Math.max(5, features.bathrooms) };
+    case 'yearBuilt':
+      return { min: currentYear - 40, max: currentYear, steps };
+    case 'floor':
+      return { min: 0, max: features.totalFloors, steps: Math.min(steps, features.totalFloors + 1) };
+    case 'totalFloors':
+      return { min: Math.max(1, features.floor), max: Math.max(1, features.floor) + 40, steps };
+  }
+};
+
+// Evenly spaced whole numbers from min to max (every integer for short ranges),
+// including the current value when it lies inside the range
+const numericValues = (range: SweepRange, current: number) => {
+  const [min, max] = range.min <= range.max ? [range.min, range.max] : [range.max, range.min];
+  const steps = range.steps;
+  const count = max - min + 1 <= MAX_WHOLE_STEPS ? max - min + 1 : Math.max(2, Math.round(steps));
+  const values = Array.from({ length: count }, (_, i) => Math.round(min + (max - min) * i / Math.max(1, count - 1)));
+  const withCurrent = current >= min && current <= max ? [...values, current] : values;
+  return [...new Set(withCurrent)].sort((a, b) => a - b);
+};
+
+// Values to try for a field: a numeric range, both states of a flag, or every category
+export const sweepValues = (field: SweepField, features: HouseFeatures, range?: SweepRange): SweepValue[] => {
+  if (isNumericField(field)) {
+    return numericValues(range ?? defaultSweepRange(field, features), features[field]);
+  }
+  return [...(CATEGORY_VALUES[field] ?? [false, true])];
+};
+
+// Value every combination of the axis values in one batched prediction.
+// Combinations that fail validation (e.g. a floor above the building) are left empty.
+export const runSensitivity = async (
+  features: HouseFeatures,
+  x: SensitivityAxis,
+  y: SensitivityAxis | null = null
+): Promise<SensitivityGrid> => {
+  const rows = y ? y.values : [undefined];
+  const variants = rows.flatMap(yValue => x.values.map(xValue => ({
+    ...features,
+    [x.field]: xValue,
+    ...(y && { [y.field]: yValue })
+  }) as HouseFeatures));
+
+  const valid = variants.filter(variant => validateHouseFeatures(variant).errors.length === 0);
+  const predictions = await predictPrices(valid);
+  const byVariant = new Map(valid.map((variant, i) => [variant, predictions[i]]));
+
+  return {
+    x,
+    y,
+    results: rows.map((_, row) => x.values.map((_, column) => byVariant.get(variants[row * x.values.length + column]) ?? null))
+  };
+};
@@ -0,0 +1,69 @@
+import type { HouseFeatures, MarketSettings } from '../types';
+import { createDefaultFeatures, PROPERTY_TYPES, FURNISHING_TYPES, LOCATION_TYPES } from './featureSchema';
+import { toMonthNumber } from './marketIndex';
+import { AREA_UNITS } from './areaUnits';
+
+export interface SharedValuation {
+  features: HouseFeatures;
+  market: MarketSettings;
+}
+
+// Query parameters for the valuation date and for switching market adjustments off
+const AS_OF_PARAM = 'asOf';
+const MARKET_PARAM = 'market';
+
+const ALLOWED_VALUES: { [K in keyof HouseFeatures]?: readonly string[] } = {
+  propertyType: PROPERTY_TYPES,
+  furnishing: FURNISHING_TYPES,
+  location: LOCATION_TYPES,
+  areaUnit: AREA_UNITS
+};
+
+// Link to this app that pre-fills the form with the given listing and valuation date
+export const createShareLink = ({ features, market }: SharedValuation, baseUrl: string = window.location.href) => {
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = '';
+
+  (Object.keys(features) as (keyof HouseFeatures)[]).forEach(field => {
+    const value = features[field];
+    url.searchParams.set(field, typeof value === 'boolean' ? (value ? '1' : '0') : String(value));
+  });
+  if (market.valuationDate) url.searchParams.set(AS_OF_PARAM, market.valuationDate);
+  if (!market.enabled) url.searchParams.set(MARKET_PARAM, 'off');
+
+  return url.toString();
+};
+
+// Read a listing from a share link's query string. Returns null when the link carries
+// no listing; fields that are missing or malformed keep their default values.
+export const parseShareLink = (search: string, defaultMarket: MarketSettings): SharedValuation | null => {
+  const params = new URLSearchParams(search);
+  const defaults = createDefaultFeatures();
+  const fields = (Object.keys(defaults) as (keyof HouseFeatures)[]).filter(field => params.has(field));
+  if (fields.length === 0) return null;
+
+  const parsed: { [K in keyof HouseFeatures]?: unknown } = {};
+  fields.forEach(field => {
+    const raw = params.get(field)?.trim() ?? '';
+    const fallback = defaults[field];
+
+    if (typeof fallback === 'boolean') {
+      parsed[field] = raw === '1' || raw === 'true';
+    } else if (typeof fallback === 'number') {
+      const value = Number(raw);
+      if (raw !== '' && Number.isFinite(value)) parsed[field] = value;
+    } else if (ALLOWED_VALUES[field]?.includes(raw) ?? true) {
+      parsed[field] = raw;
+    }
+  });
+
+  const asOf = params.get(AS_OF_PARAM) ?? '';
+  return {
+    features: { ...defaults, ...parsed } as HouseFeatures,
+    market: {
+      enabled: params.get(MARKET_PARAM) !== 'off',
+      valuationDate: Number.isNaN(toMonthNumber(asOf)) ? defaultMarket.valuationDate : asOf
+    }
+  };
+};
@@ -0,0 +1,133 @@
+import type { FeatureValidation, FieldIssue, HouseFeatures, Preprocessing } from '../types';
+import { PROPERTY_TYPES, FURNISHING_TYPES, LOCATION_TYPES, SCALED_FEATURES, FEATURE_LABELS } from './featureSchema';
+import { findCity } from './locations';
+import { AREA_UNITS, AREA_UNIT_LABELS, convertArea, getAreaUnit, toSquareFeet } from './areaUnits';
+import { now } from './clock';
+
+export const EARLIEST_YEAR_BUILT = 1800;
+
+// Properties under construction may be completed up to this many years from now
+const MAX_YEARS_AHEAD = 5;
+
+// Latest year built accepted in the form, the API and imported datasets
+export const getLatestYearBuilt = () => now().getFullYear() + MAX_YEARS_AHEAD;
+
+// Built-up area per bedroom outside this range (sq ft) suggests a typo in one of them
+const AREA_PER_BEDROOM: [number, number] = [150, 3000];
+
+// More bathrooms than bedrooms plus this many is unusual
+const EXTRA_BATHROOMS = 2;
+
+// Rules a property must pass before it can be valued, plus plausibility warnings. Given the
+// active model's preprocessing, values outside the range it was trained on are flagged too.
+export const validateHouseFeatures = (features: HouseFeatures, preprocessing: Preprocessing | null = null): FeatureValidation => {
+  const errors: FieldIssue[] = [];
+  const warnings: FieldIssue[] = [];
+  const error = (field: keyof HouseFeatures, message: string) => errors.push({ field, message });
+  const warn = (field: keyof HouseFeatures, message: string) => warnings.push({ field, message });
+  const hasError = (field: keyof HouseFeatures) => errors.some(issue => issue.field === field);
+
+  if (!(features.size > 0)) {
+    error('size', 'Please enter a valid house size');
+  }
+
+  if (!(features.bedrooms > 0)) {
+    error('bedrooms', 'Please enter a valid number of bedrooms');
+  }
+
+  if (!(features.bathrooms > 0)) {
+    error('bathrooms', 'Please enter a valid number of bathrooms');
+  }
+
+  if (!features.state?.trim()) {
+    error('state', 'Please enter a state');
+  }
+
+  if (!features.city?.trim()) {
+    error('city', 'Please enter a city');
+  }
+
+  if (!PROPERTY_TYPES.includes(features.propertyType)) {
+    error('propertyType', 'Please choose a valid property type');
+  }
+
+  if (!FURNISHING_TYPES.includes(features.furnishing)) {
+    error('furnishing', 'Please choose a valid furnishing status');
+  }
+
+  if (!LOCATION_TYPES.includes(features.location)) {
+    error('location', 'Please choose a valid area type');
+  }
+
+  if (!(features.totalFloors >= 1)) {
+    error('totalFloors', 'A building has at least one floor');
+  } else if (!(features.floor >= 0) || features.floor > features.totalFloors) {
+    error('floor', 'Floor must be between ground (0) and the total number of floors');
+  }
+
+  if (!AREA_UNITS.includes(getAreaUnit(features))) {
+    error('areaUnit', 'Please choose a valid area unit');
+  }
+
+  // A carpet area of 0 means it was not given, and the model assumes a typical ratio
+  if (features.carpetArea < 0) {
+    error('carpetArea', 'Carpet area cannot be negative');
+  } else if (features.carpetArea > features.size) {
+    error('carpetArea', 'Carpet area cannot be larger than the super built-up area');
+  }
+
+  if (!(features.yearBuilt >= EARLIEST_YEAR_BUILT)) {
+    error('yearBuilt', `Please enter a year built from ${EARLIEST_YEAR_BUILT} onwards`);
+  } else if (features.yearBuilt > getLatestYearBuilt()) {
+    error('yearBuilt', `Year built cannot be later than ${getLatestYearBuilt()}`);
+  }
+
+  if (hasError('areaUnit')) {
+    return { errors, warnings };
+  }
+
+  // Models and thresholds work in square feet; messages quote areas in the listing's unit
+  const unit = getAreaUnit(features);
+  const unitLabel = AREA_UNIT_LABELS[unit];
+  const inSquareFeet = toSquareFeet(features);
+  const inListingUnit = (squareFeet: number) => Math.round(convertArea(squareFeet, 'sqft', unit));
+
+  const currentYear = now().getFullYear();
+  SCALED_FEATURES.forEach(field => {
+    const scaler = preprocessing?.features[field];
+    const value = inSquareFeet[field];
+    if (!scaler || hasError(field) || (value >= scaler.min && value <= scaler.max)) return;
+    if (field === 'yearBuilt' && value > currentYear) return;
+    const [min, max] = [scaler.min, scaler.max].map(bound => field === 'size' ? inListingUnit(bound) : Math.round(bound));
+    warn(field, `${FEATURE_LABELS[field]} ${features[field]} is outside the ${min}–${max} range the model was trained on, so this estimate is less reliable`);
+  });
+
+  if (!hasError('size') && !hasError('bedrooms')) {
+    const areaPerBedroom = inSquareFeet.size / features.bedrooms;
+    if (areaPerBedroom < AREA_PER_BEDROOM[0]) {
+      warn('bedrooms', `${features.bedrooms} bedrooms in ${features.size} ${unitLabel} leaves under ${inListingUnit(AREA_PER_BEDROOM[0])} ${unitLabel} each; check the area and bedroom count`);
+    } else if (areaPerBedroom > AREA_PER_BEDROOM[1]) {
+      warn('size', `${features.size} ${unitLabel} for ${features.bedrooms} bedroom(s) is over ${inListingUnit(AREA_PER_BEDROOM[1])} ${unitLabel} each; check the area and bedroom count`);
+    }
+  }
+
+  if (!hasError('bathrooms') && !hasError('bedrooms') && features.bathrooms > features.bedrooms + EXTRA_BATHROOMS) {
+    warn('bathrooms', `${features.bathrooms} bathrooms for ${features.bedrooms} bedroom(s) is unusual`);
+  }
+
+  if (!hasError('yearBuilt') && features.yearBuilt > currentYear) {
+    warn('yearBuilt', 'Year built is in the future; the estimate assumes the property is already complete');
+  }
+
+  if (!hasError('city') && !findCity(features.city, features.state, features.country)) {
+    warn('city', `Not in our location list${features.state ? ` for ${features.state}` : ''}, so no city premium will be applied`);
+  }
+
+  return { errors, warnings };
+};
+
+// Errors and warnings that concern one form field
+export const getFieldIssues = (validation: FeatureValidation, field: keyof HouseFeatures) => ({
+  errors: validation.errors.filter(issue => issue.field === field).map(issue => issue.message),
+  warnings: validation.warnings.filter(issue => issue.field === field).map(issue => issue.message)
+});
@@ -0,0 +1,94 @@
+import type { ModelWorkerCalls, ModelWorkerCall, ModelWorkerRequest, ModelWorkerResponse } from './protocol';
+import {
+  predictPriceWithAI,
+  predictPricesWithAI,
+  explainPriceWithAI,
+  findComparableListings,
+  setTrainingDataset,
+  restoreStoredModel,
+  trainNewModel,
+  exportModel,
+  importModel,
+  getModelMetadata,
+  evaluateActiveModel,
+  evaluateModelFiles,
+  setMarketIndex,
+  setMarketSettings,
+  getMarketIndexInfo,
+  onTrainingProgress,
+  onTrainingCountChange,
+  cancelTraining,
+  trainCandidateModel,
+  promoteCandidate,
+  discardCandidate,
+  predictRentWithAI,
+  setRentalDataset,
+  trainCountryModel,
+  removeCountryModel,
+  getCountryModels,
+  addCountry,
+  getMarketListings
+} from '../utils/model';
+import { TrainingCancelledError } from '../utils/errors';
+
+type Handlers = {
+  [K in ModelWorkerCall]: (payload: ModelWorkerCalls[K]['payload']) => Promise<ModelWorkerCalls[K]['result']> | ModelWorkerCalls[K]['result'];
+};
+
+const handlers: Handlers = {
+  predict: ({ features }) => predictPriceWithAI(features),
+  predictBatch: ({ featuresList }) => predictPricesWithAI(featuresList),
+  comparables: ({ features, k }) => findComparableListings(features, k),
+  explain: ({ features }) => explainPriceWithAI(features),
+  setDataset: ({ examples }) => setTrainingDataset(examples),
+  predictRent: ({ features }) => predictRentWithAI(features),
+  setRentalDataset: ({ examples }) => setRentalDataset(examples),
+  restore: () => restoreStoredModel(),
+  train: () => trainNewModel(),
+  exportModel: ({ country }) => exportModel(country),
+  importModel: ({ files }) => importModel(files),
+  getMetadata: ({ country }) => getModelMetadata(country),
+  evaluate: () => evaluateActiveModel(),
+  evaluateFiles: ({ files }) => evaluateModelFiles(files),
+  setMarketIndex: ({ index }) => setMarketIndex(index),
+  setMarketSettings: ({ settings }) => setMarketSettings(settings),
+  getMarketIndex: () => getMarketIndexInfo(),
+  trainCandidate: ({ hyperparameters }) => trainCandidateModel(hyperparameters),
+  promoteCandidate: () => promoteCandidate(),
+  discardCandidate: () => discardCandidate(),
+  registerCountry: ({ config }) => addCountry(config),
+  trainCountryModel: ({ country }) => trainCountryModel(country),
+  removeCountryModel: ({ country }) => removeCountryModel(country),
+  getCountryModels: () => getCountryModels(),
+  getMarketListings: () => getMarketListings()
+};
+
+const post = (message: ModelWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+onTrainingProgress(progress => post({ kind: 'progress', progress }));
+onTrainingCountChange(running => post({ kind: 'trainingCount', running }));
+
+self.onmessage = async (event: MessageEvent<ModelWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.kind === 'cancelTraining') {
+    cancelTraining(request.trainingId);
+    return;
+  }
+
+  try {
+    const handler = handlers[request.type] as (payload: unknown) => unknown;
+    const result = await handler(request.payload) as ModelWorkerCalls[ModelWorkerCall]['result'];
+    const transfer = request.type === 'exportModel' ? [(result as ModelWorkerCalls['exportModel']['result']).weightData] : [];
+    post({ kind: 'result', id: request.id, result }, transfer);
+  } catch (error) {
+    post({
+      kind: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof TrainingCancelledError
+    });
+  }
+};
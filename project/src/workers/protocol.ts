@@ -0,0 +1,62 @@
+import type {
+  CandidateModel,
+  ComparablesResult,
+  CountryConfig,
+  EvaluationReport,
+  HouseFeatures,
+  Hyperparameters,
+  MarketIndex,
+  MarketIndexInfo,
+  MarketSettings,
+  ModelMetadata,
+  PredictionResult,
+  PriceExplanation,
+  SerializedModel,
+  TrainingDataSource,
+  TrainingExample,
+  TrainingListings,
+  TrainingProgress
+} from '../types';
+
+// Every request the model worker understands, with its payload and result types
+export interface ModelWorkerCalls {
+  predict: { payload: { features: HouseFeatures }; result: PredictionResult };
+  setDataset: { payload: { examples: TrainingExample[] }; result: TrainingDataSource };
+  predictRent: { payload: { features: HouseFeatures }; result: PredictionResult };
+  setRentalDataset: { payload: { examples: TrainingExample[] }; result: TrainingDataSource };
+  restore: { payload: Record<string, never>; result: ModelMetadata | null };
+  train: { payload: Record<string, never>; result: ModelMetadata };
+  exportModel: { payload: { country?: string }; result: SerializedModel };
+  importModel: { payload: { files: File[] }; result: ModelMetadata };
+  getMetadata: { payload: { country?: string }; result: ModelMetadata | null };
+  predictBatch: { payload: { featuresList: HouseFeatures[] }; result: PredictionResult[] };
+  comparables: { payload: { features: HouseFeatures; k?: number }; result: ComparablesResult };
+  explain: { payload: { features: HouseFeatures }; result: PriceExplanation };
+  evaluate: { payload: Record<string, never>; result: EvaluationReport | null };
+  evaluateFiles: { payload: { files: File[] }; result: EvaluationReport | null };
+  setMarketIndex: { payload: { index: MarketIndex | null }; result: MarketIndexInfo };
+  setMarketSettings: { payload: { settings: Partial<MarketSettings> }; result: MarketIndexInfo };
+  getMarketIndex: { payload: Record<string, never>; result: MarketIndexInfo };
+  trainCandidate: { payload: { hyperparameters: Hyperparameters }; result: CandidateModel };
+  promoteCandidate: { payload: Record<string, never>; result: ModelMetadata };
+  discardCandidate: { payload: Record<string, never>; result: void };
+  registerCountry: { payload: { config: CountryConfig }; result: void };
+  trainCountryModel: { payload: { country: string }; result: ModelMetadata };
+  removeCountryModel: { payload: { country: string }; result: void };
+  getCountryModels: { payload: Record<string, never>; result: ModelMetadata[] };
+  getMarketListings: { payload: Record<string, never>; result: TrainingListings };
+}
+
+export type ModelWorkerCall = keyof ModelWorkerCalls;
+
+// Messages sent from the page to the worker
+export type ModelWorkerRequest =
+  | { [K in ModelWorkerCall]: { kind: 'call'; id: number; type: K; payload: ModelWorkerCalls[K]['payload'] } }[ModelWorkerCall]
+  | { kind: 'cancelTraining'; trainingId?: number };
+
+// Messages sent from the worker back to the page
+export type ModelWorkerResponse =
+  | { kind: 'result'; id: number; result: ModelWorkerCalls[ModelWorkerCall]['result'] }
+  | { kind: 'error'; id: number; message: string; cancelled: boolean }
+  | { kind: 'progress'; progress: TrainingProgress }
+  | { kind: 'trainingCount'; running: number };